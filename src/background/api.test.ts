@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { chatCompletionsUrl, createApiConversation, requestChatCompletion } from "./api";
+
+const config = { baseUrl: "http://localhost:8000/v1/", model: "m", apiKey: "secret" };
+
+function reply(status: number, body: unknown) {
+  return new Response(typeof body === "string" ? body : JSON.stringify(body), { status });
+}
+
+function stubFetch(...responses: (Response | Error)[]) {
+  const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => {
+    const next = responses.shift();
+    if (!next) throw new Error("unexpected request");
+    if (next instanceof Error) throw next;
+    return next;
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("chatCompletionsUrl", () => {
+  it("appends the endpoint path once", () => {
+    expect(chatCompletionsUrl(" http://host/v1// ")).toBe("http://host/v1/chat/completions");
+  });
+});
+
+describe("requestChatCompletion", () => {
+  it("posts the messages and reads the reply and usage", async () => {
+    const fetchMock = stubFetch(
+      reply(200, {
+        choices: [{ message: { content: "[1]" } }],
+        usage: { prompt_tokens: 12, completion_tokens: 3 }
+      })
+    );
+    const res = await requestChatCompletion(config, [{ role: "user", content: "hi" }]);
+    expect(res).toEqual({ ok: true, reply: "[1]", usage: { inputTokens: 12, outputTokens: 3 } });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://localhost:8000/v1/chat/completions");
+    expect((init.headers as Record<string, string>).Authorization).toBe("Bearer secret");
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: "m",
+      messages: [{ role: "user", content: "hi" }]
+    });
+  });
+
+  it("joins content returned as a list of parts", async () => {
+    stubFetch(reply(200, { choices: [{ message: { content: [{ text: "a" }, "b"] } }] }));
+    expect(await requestChatCompletion(config, [])).toEqual({
+      ok: true,
+      reply: "ab",
+      usage: undefined
+    });
+  });
+
+  it("cools down on rate limits and server errors only", async () => {
+    stubFetch(reply(429, "slow down"), reply(503, ""), reply(400, "bad model"));
+    expect(await requestChatCompletion(config, [])).toEqual({
+      ok: false,
+      error: "api_http_429: slow down",
+      errorKind: "quota"
+    });
+    expect((await requestChatCompletion(config, [])).errorKind).toBe("site_error");
+    expect(await requestChatCompletion(config, [])).toEqual({
+      ok: false,
+      error: "api_http_400: bad model"
+    });
+  });
+
+  it("fails without a base URL, on empty replies and on network errors", async () => {
+    stubFetch(reply(200, { choices: [{ message: { content: "  " } }] }), new Error("offline"));
+    expect((await requestChatCompletion({ ...config, baseUrl: " " }, [])).error).toBe(
+      "api_base_url_missing"
+    );
+    expect((await requestChatCompletion(config, [])).error).toBe("api_empty_reply");
+    expect((await requestChatCompletion(config, [])).error).toBe("offline");
+  });
+});
+
+describe("createApiConversation", () => {
+  it("resends the history of successful exchanges only", async () => {
+    const fetchMock = stubFetch(
+      reply(200, { choices: [{ message: { content: "first" } }] }),
+      reply(500, ""),
+      reply(200, { choices: [{ message: { content: "third" } }] })
+    );
+    const send = createApiConversation(config);
+    await send("one");
+    await send("two");
+    await send("three");
+    const sent = fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body as string).messages);
+    expect(sent[2]).toEqual([
+      { role: "user", content: "one" },
+      { role: "assistant", content: "first" },
+      { role: "user", content: "three" }
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import type { RunPromptResponse } from "../shared/types";
+
+// Client for OpenAI-compatible chat completion endpoints (OpenAI, vLLM, Ollama, LM Studio, a
+// local mock, ...). Replies come back in the same shape as a content script's run_prompt answer,
+// so the dispatcher treats the API like one more chat tab.
+
+export interface ApiConfig {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+type ApiMessage = { role: "user" | "assistant"; content: string };
+
+const API_TIMEOUT_MS = 5 * 60 * 1000;
+
+export function chatCompletionsUrl(baseUrl: string) {
+  return `${baseUrl.trim().replace(/\/+$/, "")}/chat/completions`;
+}
+
+function readContent(data: any): string | null {
+  const content = data?.choices?.[0]?.message?.content;
+  if (typeof content === "string") return content;
+  // Some servers return the content as a list of parts.
+  if (Array.isArray(content)) {
+    return content.map((part) => (typeof part === "string" ? part : part?.text ?? "")).join("");
+  }
+  return null;
+}
+
+function readUsage(data: any): RunPromptResponse["usage"] {
+  const input = data?.usage?.prompt_tokens;
+  const output = data?.usage?.completion_tokens;
+  if (typeof input !== "number" || typeof output !== "number") return undefined;
+  return { inputTokens: input, outputTokens: output };
+}
+
+export async function requestChatCompletion(
+  config: ApiConfig,
+  messages: ApiMessage[]
+): Promise<RunPromptResponse> {
+  if (!config.baseUrl.trim()) return { ok: false, error: "api_base_url_missing" };
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), API_TIMEOUT_MS);
+  try {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (config.apiKey.trim()) headers.Authorization = `Bearer ${config.apiKey.trim()}`;
+    const res = await fetch(chatCompletionsUrl(config.baseUrl), {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ model: config.model, messages }),
+      signal: controller.signal
+    });
+    if (!res.ok) {
+      const detail = (await res.text().catch(() => "")).trim().slice(0, 200);
+      const error = `api_http_${res.status}${detail ? `: ${detail}` : ""}`;
+      // Rate limits and server errors get the same cooldown as a chat site's banners.
+      if (res.status === 429) return { ok: false, error, errorKind: "quota" };
+      if (res.status >= 500) return { ok: false, error, errorKind: "site_error" };
+      return { ok: false, error };
+    }
+    const data = await res.json();
+    const reply = readContent(data);
+    if (!reply?.trim()) return { ok: false, error: "api_empty_reply" };
+    return { ok: true, reply, usage: readUsage(data) };
+  } catch (err: any) {
+    if (err?.name === "AbortError") return { ok: false, error: "api_timeout" };
+    return { ok: false, error: err?.message || String(err) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Keeps the message history so follow-ups (e.g. schema repair) continue the same conversation,
+// the way they do in a chat tab.
+export function createApiConversation(config: ApiConfig) {
+  const messages: ApiMessage[] = [];
+  return async (prompt: string): Promise<RunPromptResponse> => {
+    const next: ApiMessage = { role: "user", content: prompt };
+    const res = await requestChatCompletion(config, [...messages, next]);
+    if (res.ok && res.reply) messages.push(next, { role: "assistant", content: res.reply });
+    return res;
+  };
+}
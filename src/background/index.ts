@@ -1,27 +1,74 @@
 import Dexie from "dexie";
-import { db, DEFAULT_SETTINGS } from "../db";
+import {
+  db,
+  DEFAULT_PROJECT_ID,
+  DEFAULT_SETTINGS,
+  ensureDefaultProject,
+  loadSourceRecords,
+  makeQueueId,
+  refreshConsensus
+} from "../db";
 import type {
   AutoTarget,
   BackgroundMessage,
   BackgroundResponse,
+  BatchSizingStatus,
+  DispatchRecord,
+  DispatchWorkerState,
+  DispatchWorkerStatus,
+  PromptVersion,
   QueueItem,
+  ReplyStreamMessage,
+  ResultRecord,
+  SampleChunk,
+  RunPromptResponse,
+  SiteIssueKind,
+  ReviewFlag,
   SettingsDoc,
   StatsSnapshot,
-  TargetSite
+  TargetSite,
+  WebSite
 } from "../shared/types";
 import { DEFAULT_PROMPT } from "../shared/defaultPrompt";
+import {
+  formatValidationErrors,
+  parseSchemaText,
+  validateJsonSchema,
+  type JsonSchema,
+  type SchemaValidationError
+} from "../shared/jsonSchema";
+import {
+  buildBatchPrompt,
+  buildFollowUpPrompt,
+  usesSourceRecord,
+  type SourceRecordMap
+} from "../shared/template";
+import { DEFAULT_CONSENSUS_FIELD, readField } from "../shared/consensus";
+import { classifyError, computeRetryDelay } from "../shared/retry";
+import { DEFAULT_SITE, SITE_IDS, SITES, siteForUrl } from "../shared/sites";
+import { estimateTokens, summarizeDispatches } from "../shared/metrics";
+import { measureItem, mergeChunkOutputs, promptOverhead } from "../shared/chunking";
+import { routeToVariant } from "../shared/experiment";
+import { createApiConversation, type ApiConfig } from "./api";
+import {
+  applySchema,
+  extractObjectList,
+  normalizeParsed,
+  parseBatchResponse,
+  parseRepairResponse,
+  parseSingleResponse,
+  type ParsedEntry
+} from "./parse";
 
 type TabChangeInfo = { status?: string };
 
-const patterns: Record<TargetSite, string[]> = {
-  gemini: ["https://gemini.google.com/*"],
-  chatgpt: ["https://chatgpt.com/*"]
-};
+// One bundle serves every site; it picks its adapter from the page URL.
+const CONTENT_SCRIPT_FILE = "content/index.js";
 
 const injectedTabs = new Set<number>();
 let lockedTarget: { tabId: number; target: TargetSite } | null = null;
 
-async function ensureContentScript(tabId: number, target: TargetSite) {
+async function ensureContentScript(tabId: number) {
   const hasListener = await new Promise<boolean>((resolve) => {
     try {
       chrome.tabs.sendMessage(tabId, { type: "ping" }, (res) => {
@@ -42,7 +89,7 @@ async function ensureContentScript(tabId: number, target: TargetSite) {
   }
 
   injectedTabs.delete(tabId);
-  const file = `content/${target}.js`;
+  const file = CONTENT_SCRIPT_FILE;
   try {
     await chrome.scripting.executeScript({
       target: { tabId },
@@ -57,17 +104,106 @@ async function ensureContentScript(tabId: number, target: TargetSite) {
 
 const state: {
   running: boolean;
-  timer: ReturnType<typeof setTimeout> | null;
-  processing: boolean;
+  // Project whose queue the dispatcher drains.
+  projectId: string;
   settings: SettingsDoc;
   prompt: string;
+  itemTemplate: string;
+  schema: string;
+  // Prompt version the three fields above come from (null = the unversioned draft).
+  promptVersionId: string | null;
+  // Prompts of settings.experimentVersionIds, in order; empty when no experiment is set.
+  variants: PromptParts[];
 } = {
   running: false,
-  timer: null,
-  processing: false,
+  projectId: DEFAULT_PROJECT_ID,
   settings: DEFAULT_SETTINGS,
-  prompt: DEFAULT_PROMPT
+  prompt: DEFAULT_PROMPT,
+  itemTemplate: "",
+  schema: "",
+  promptVersionId: null,
+  variants: []
+};
+
+// What a batch prompt is built from: the active prompt, or an experiment's variant.
+type PromptParts = {
+  prompt: string;
+  itemTemplate: string;
+  schema: string;
+  versionId: string | null;
+  experiment: boolean;
+};
+
+function activePrompt(): PromptParts {
+  return {
+    prompt: state.prompt,
+    itemTemplate: state.itemTemplate,
+    schema: state.schema,
+    versionId: state.promptVersionId,
+    experiment: false
+  };
+}
+
+// One worker per chat tab (or per parallel API request slot); each claims its own batch and runs
+// one prompt at a time.
+type DispatchWorker = DispatchWorkerStatus & {
+  timer: ReturnType<typeof setTimeout> | null;
+  processing: boolean;
+  conversation: Conversation;
+};
+
+// The chat a worker is currently typing into, as far as the fresh-conversation policy cares.
+type Conversation = {
+  // Recorded on every dispatch, to group them by chat.
+  id: string;
+  // Batches answered and characters sent plus received since the chat was opened.
+  batches: number;
+  chars: number;
+  // Prompt last sent in full in this chat; with rulesOncePerChat, later batches built from the same
+  // prompt carry just their samples.
+  rules: string | null;
+  // Consensus run of the batches answered in this chat (null before the first such batch).
+  run: number | null;
+  // False for a tab's pre-existing chat, whose length is unknown.
+  opened: boolean;
+  // API workers keep the message history here; null until the first request.
+  api: ((prompt: string) => Promise<RunPromptResponse>) | null;
+};
+
+// Give the site a moment to settle after its new-chat button before typing the next prompt.
+const NEW_CHAT_SETTLE_MS = 800;
+
+// A tab that fails this many batches in a row is taken out of rotation until the next start.
+const MAX_CONSECUTIVE_TAB_FAILURES = 3;
+// Shortest wait before an idle worker looks again for retries that have come due.
+const RETRY_POLL_MIN_MS = 1000;
+// Error banners are often transient, so they get a shorter rest than quota limits or captchas.
+const SITE_ERROR_COOLDOWN_MS = 60 * 1000;
+
+const workers = new Map<string, DispatchWorker>();
+
+// Adaptive batch sizing: clean batches in a row needed before the size grows again.
+const GROW_AFTER_CLEAN_BATCHES = 3;
+
+// Shared by all workers of the run; reset from the settings on every start.
+const batchSizing: BatchSizingStatus = {
+  adaptive: false,
+  size: DEFAULT_SETTINGS.batchSize,
+  reason: "",
+  updatedAt: 0
+};
+let cleanBatchStreak = 0;
+
+const REPLY_STREAM_PORT = "llm-labeler-reply-stream";
+
+// Batches whose reply is still streaming in, keyed by the stream id sent with run_prompt.
+type ReplyStream = {
+  // When the first reply text arrived, for the dispatch record.
+  firstTextAt: number | null;
+  early: EarlyCommitter | null;
 };
+const replyStreams = new Map<string, ReplyStream>();
+let streamCounter = 0;
 
 function normalizePromptInput(prompt: unknown) {
   return typeof prompt === "string" ? prompt : DEFAULT_PROMPT;
@@ -89,21 +225,14 @@ const sendMessage = <T = any>(tabId: number, payload: any) =>
 
 async function detectTargetTab(): Promise<{ tabId: number; target: TargetSite } | null> {
   const activeTabs = await queryTabs({ active: true, currentWindow: true });
-  const matchActive = activeTabs.find((t) =>
-    t.url &&
-    (Object.keys(patterns) as TargetSite[]).some((key) =>
-      patterns[key].some((u) => t.url?.startsWith(u.replace("*", "")))
-    )
-  );
-  if (matchActive?.id && matchActive.url) {
-    const target = (Object.keys(patterns) as TargetSite[]).find((k) =>
-      patterns[k].some((u) => matchActive.url?.startsWith(u.replace("*", "")))
-    );
+  const matchActive = activeTabs.find((t) => siteForUrl(t.url));
+  if (matchActive?.id) {
+    const target = siteForUrl(matchActive.url);
     if (target) return { tabId: matchActive.id, target };
   }
 
-  for (const target of Object.keys(patterns) as TargetSite[]) {
-    const hits = await queryTabs({ url: patterns[target] });
+  for (const target of SITE_IDS) {
+    const hits = await queryTabs({ url: SITES[target].matches });
     if (hits.length && hits[0].id != null) {
       return { tabId: hits[0].id!, target };
     }
@@ -138,12 +267,12 @@ async function ensureTargetTab(): Promise<{ tabId: number; target: TargetSite }
     return detected;
   }
 
-  // Default to Gemini if nothing is open.
-  const created = await chrome.tabs.create({ url: "https://gemini.google.com/app" });
+  // Open the default site if nothing is open.
+  const created = await chrome.tabs.create({ url: SITES[DEFAULT_SITE].homeUrl });
   if (created?.id != null) {
     await waitForTabComplete(created.id);
     enableSidePanel(created.id);
-    lockedTarget = { tabId: created.id, target: "gemini" };
+    lockedTarget = { tabId: created.id, target: DEFAULT_SITE };
     return lockedTarget;
   }
   return null;
@@ -152,8 +281,9 @@ async function ensureTargetTab(): Promise<{ tabId: number; target: TargetSite }
 async function sendPromptToTab(
   tabId: number,
   prompt: string,
-  sampleId: string
-): Promise<{ ok: boolean; reply?: string; error?: string }> {
+  sampleId: string,
+  streamId?: string
+): Promise<RunPromptResponse> {
   try {
     await sendMessage(tabId, { type: "ping" });
   } catch (err: any) {
@@ -164,358 +294,28 @@ async function sendPromptToTab(
     const res = await sendMessage(tabId, {
       type: "run_prompt",
       prompt,
-      sampleId
+      sampleId,
+      streamId
     });
-    return res as any;
+    return res as RunPromptResponse;
   } catch (err: any) {
     console.warn("[llm-labeler][bg] sendMessage failed", err?.message || err);
     return { ok: false, error: err?.message || String(err) };
   }
 }
 
-function buildBatchPrompt(items: QueueItem[], prompt: string) {
-  const trimmedPrompt = prompt.trim();
-  const prefix = trimmedPrompt ? `${trimmedPrompt}\n\n` : "";
-  const body = items
-    .map((item) => (item.prompt || "").trim())
-    .filter(Boolean)
-    .join("\n");
-  return `${prefix}${body}`;
-}
-
-function unwrapJsonish(raw: string) {
-  if (!raw) return "";
-  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/i);
-  if (fenced?.[1]) return fenced[1].trim();
-  const trimmed = raw.trim();
-  if (/^json\s*[\[{]/i.test(trimmed)) {
-    return trimmed.replace(/^json\s*/i, "");
-  }
-  return trimmed;
-}
-
-function sliceBalanced(raw: string, open: string, close: string) {
-  let start = -1;
-  let depth = 0;
-  let inString = false;
-  let escaped = false;
-  for (let i = 0; i < raw.length; i++) {
-    const ch = raw[i];
-    if (escaped) {
-      escaped = false;
-      continue;
-    }
-    if (ch === "\\") {
-      escaped = true;
-      continue;
-    }
-    if (ch === '"') {
-      inString = !inString;
-      continue;
-    }
-    if (inString) continue;
-    if (ch === open) {
-      if (start === -1) start = i;
-      depth += 1;
-    } else if (ch === close && depth > 0) {
-      depth -= 1;
-      if (depth === 0) {
-        return raw.slice(start, i + 1);
-      }
-    }
-  }
-  return null;
-}
-
-function extractJSONObject(raw: string) {
-  const cleaned = unwrapJsonish(raw);
-  try {
-    const parsed = JSON.parse(cleaned);
-    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
-      return parsed;
-    }
-  } catch {
-    /* ignore */
-  }
-  const balanced = sliceBalanced(cleaned, "{", "}");
-  if (balanced) {
-    try {
-      const parsed = JSON.parse(balanced);
-      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
-        return parsed;
-      }
-    } catch {
-      /* ignore */
-    }
-  }
-  return null;
-}
-
-function extractJSONArray(raw: string) {
-  const cleaned = unwrapJsonish(raw);
-  try {
-    const parsed = JSON.parse(cleaned);
-    if (Array.isArray(parsed)) return parsed;
-  } catch {
-    /* ignore */
-  }
-  const balanced = sliceBalanced(cleaned, "[", "]");
-  if (balanced) {
-    try {
-      const parsed = JSON.parse(balanced);
-      if (Array.isArray(parsed)) return parsed;
-    } catch {
-      /* ignore */
-    }
-  }
-  return null;
-}
-
-function extractObjectList(raw: string) {
-  const cleaned = unwrapJsonish(raw);
-  const out: any[] = [];
-  let idx = 0;
-  while (idx < cleaned.length) {
-    const slice = cleaned.slice(idx);
-    const balanced = sliceBalanced(slice, "{", "}");
-    if (!balanced) break;
-    idx += slice.indexOf(balanced) + balanced.length;
-    try {
-      const parsed = JSON.parse(balanced);
-      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
-        out.push(parsed);
-      }
-    } catch {
-      /* ignore */
-    }
-  }
-  return out.length ? out : null;
-}
-
-function extractRawObjectEntries(raw: string) {
-  const cleaned = unwrapJsonish(raw);
-  const out: string[] = [];
-  let idx = 0;
-  while (idx < cleaned.length) {
-    const slice = cleaned.slice(idx);
-    const balanced = sliceBalanced(slice, "{", "}");
-    if (!balanced) break;
-    idx += slice.indexOf(balanced) + balanced.length;
-    out.push(balanced.trim());
-  }
-  if (out.length) return out;
-  const lines = cleaned
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .filter(Boolean);
-  return lines.length ? lines : null;
-}
-
-function parseLooseObject(rawObj: string, fallbackId: string) {
-  const trimmed = (rawObj || "").trim();
-  if (!trimmed) return null;
-  const idMatch = trimmed.match(/"id"\s*:\s*"([^"]*)"/i);
-  const id = (idMatch?.[1] || fallbackId || "").trim();
-  const textFieldMatch = trimmed.match(/"(output_text|output|text|completion)"\s*:/i);
-  if (!textFieldMatch || textFieldMatch.index == null) return null;
-  const start = textFieldMatch.index + textFieldMatch[0].length;
-  const end = trimmed.lastIndexOf("}");
-  const slice = end > start ? trimmed.slice(start, end) : trimmed.slice(start);
-  let value = slice.trim();
-  value = value.replace(/,\s*$/, "");
-  if (value.startsWith('"')) value = value.slice(1);
-  value = value.replace(/"\s*$/, "");
-  return { id, output_text: value, parseMode: "line_split_fallback" };
-}
-
-function normalizeParsed(entry: any, fallbackId: string) {
-  const id = entry?.id ?? entry?.sampleId ?? entry?.sample_id ?? fallbackId;
-  const output_text =
-    entry?.output_text ?? entry?.output ?? entry?.text ?? entry?.completion ?? "";
-  return { ...entry, id, output_text };
-}
-
-function extractOutputText(entry: any): string | null {
-  const value = entry?.output_text ?? entry?.output ?? entry?.text ?? entry?.completion;
-  return typeof value === "string" ? value : null;
-}
-
-type BatchParseEntry = { item: QueueItem; ok: boolean; parsed: any; raw: string };
-
-type BatchParseResult =
-  | { mode: "per_item"; entries: BatchParseEntry[] }
-  | { mode: "batch_level"; ok: true; parsed: any; raw: string };
-
-function buildBatchLevelParsed(raw: string, items: QueueItem[], candidate: unknown) {
-  const cleaned = unwrapJsonish(raw);
-  let output_text = cleaned;
-  const outputCount = Array.isArray(candidate)
-    ? candidate.length
-    : candidate && typeof candidate === "object"
-      ? 1
-      : undefined;
-
-  if (Array.isArray(candidate) && candidate.length === 1) {
-    const only = candidate[0];
-    if (only && typeof only === "object" && !Array.isArray(only)) {
-      output_text = extractOutputText(only) ?? cleaned;
-    }
-  } else if (candidate && typeof candidate === "object" && !Array.isArray(candidate)) {
-    output_text = extractOutputText(candidate) ?? cleaned;
-  }
-
-  return {
-    output_text,
-    parseMode: "batch_level_output",
-    inputCount: items.length,
-    outputCount,
-    sampleIds: items.map((item) => item.sample.id || item.id)
-  };
-}
-
-function coerceSingleObject(raw: string) {
-  const obj = extractJSONObject(raw);
-  if (obj) return obj;
-  const arr = extractJSONArray(raw);
-  if (
-    Array.isArray(arr) &&
-    arr.length === 1 &&
-    arr[0] &&
-    typeof arr[0] === "object" &&
-    !Array.isArray(arr[0])
-  ) {
-    return arr[0];
+function computeReviewFlags(parsed: any, hasValidationErrors: boolean): ReviewFlag[] {
+  const flags: ReviewFlag[] = [];
+  if (parsed?.parseMode === "line_split_fallback") flags.push("parse_fallback");
+  if (hasValidationErrors) flags.push("schema_failed");
+  const threshold = Number(state.settings.reviewConfidenceThreshold) || 0;
+  if (threshold > 0) {
+    const raw = readField(parsed, state.settings.reviewConfidenceField || "confidence");
+    const confidence =
+      typeof raw === "number" ? raw : typeof raw === "string" && raw.trim() ? Number(raw) : NaN;
+    if (Number.isFinite(confidence) && confidence < threshold) flags.push("low_confidence");
   }
-  return null;
-}
-
-function parseSingleResponse(raw: string, item: QueueItem) {
-  const obj = coerceSingleObject(raw);
-  if (!obj) {
-    const fallbackEntries = extractRawObjectEntries(raw);
-    if (fallbackEntries && fallbackEntries.length) {
-      const fallback =
-        parseLooseObject(fallbackEntries[0], item.sample.id || item.id) || {
-          id: item.sample.id || item.id,
-          output_text: fallbackEntries[0],
-          parseMode: "line_split_fallback"
-        };
-      return { ok: true, parsed: normalizeParsed(fallback, item.sample.id || item.id) };
-    }
-    return { ok: false, parsed: { error: "parse_failed", raw } };
-  }
-  const normalized = normalizeParsed(obj, item.sample.id || item.id);
-  const ok = typeof obj.ok === "undefined" ? true : Boolean(obj.ok);
-  return { ok, parsed: normalized };
-}
-
-function parseBatchResponse(raw: string, items: QueueItem[], allowCountMismatch: boolean): BatchParseResult {
-  const batchLevel = (candidate: unknown): BatchParseResult => ({
-    mode: "batch_level",
-    ok: true,
-    raw,
-    parsed: buildBatchLevelParsed(raw, items, candidate)
-  });
-
-  const payload = extractJSONArray(raw);
-  if (Array.isArray(payload)) {
-    if (allowCountMismatch && payload.length !== items.length) {
-      return batchLevel(payload);
-    }
-    const byId = new Map<string, any>();
-    payload.forEach((entry) => {
-      const id = entry?.id ?? entry?.sampleId ?? entry?.sample_id;
-      if (id != null) byId.set(String(id), entry);
-    });
-    let missing = false;
-    const entries: BatchParseEntry[] = items.map((item, idx) => {
-      const fallbackId = item.sample.id || item.id;
-      const picked = byId.get(String(fallbackId)) ?? payload[idx];
-      const entryRaw = picked ? JSON.stringify(picked) : raw;
-      if (!picked) {
-        missing = true;
-        return {
-          item,
-          ok: false,
-          parsed: { error: "missing_result_for_id", id: fallbackId, raw },
-          raw
-        };
-      }
-      const normalized = normalizeParsed(picked, fallbackId);
-      return { item, ok: true, parsed: normalized, raw: entryRaw };
-    });
-    if (allowCountMismatch && missing) {
-      return batchLevel(payload);
-    }
-    return { mode: "per_item", entries };
-  }
-
-  const looseObjects = extractObjectList(raw);
-  if (looseObjects && looseObjects.length) {
-    if (allowCountMismatch && looseObjects.length !== items.length) {
-      return batchLevel(looseObjects);
-    }
-    const mapped = items.map((_item, idx) => looseObjects[idx] || looseObjects[0]);
-    const entries: BatchParseEntry[] = mapped.map((entry, idx) => ({
-      item: items[idx],
-      ok: typeof entry.ok === "undefined" ? true : Boolean(entry.ok),
-      parsed: normalizeParsed(entry, items[idx].sample.id || items[idx].id),
-      raw: JSON.stringify(entry)
-    }));
-    return { mode: "per_item", entries };
-  }
-
-  const fallbackEntries = extractRawObjectEntries(raw);
-  if (fallbackEntries && fallbackEntries.length) {
-    if (allowCountMismatch && fallbackEntries.length !== items.length) {
-      return batchLevel(fallbackEntries);
-    }
-    const fallbackObjects = fallbackEntries.map((entry, idx) => ({
-      raw: entry,
-      obj: parseLooseObject(entry, items[idx]?.sample.id || items[idx]?.id || "")
-    }));
-    const byId = new Map<string, (typeof fallbackObjects)[number]>();
-    fallbackObjects.forEach((entry) => {
-      if (entry.obj?.id) byId.set(String(entry.obj.id), entry);
-    });
-
-    let missing = false;
-    const entries: BatchParseEntry[] = items.map((item, idx) => {
-      const fallbackId = item.sample.id || item.id;
-      const picked = byId.get(String(fallbackId)) ?? fallbackObjects[idx];
-      if (!picked) {
-        missing = true;
-        return { item, ok: false, parsed: { error: "line_split_missing_entry", raw }, raw };
-      }
-      const parsedEntry =
-        picked.obj ??
-        ({
-          id: fallbackId,
-          output_text: picked.raw,
-          parseMode: "line_split_fallback"
-        } as any);
-      return {
-        item,
-        ok: true,
-        parsed: normalizeParsed(parsedEntry, fallbackId),
-        raw: picked.raw
-      };
-    });
-
-    if (allowCountMismatch && missing) {
-      return batchLevel(fallbackEntries);
-    }
-
-    return { mode: "per_item", entries };
-  }
-
-  if (allowCountMismatch) {
-    return batchLevel(null);
-  }
-  return {
-    mode: "per_item",
-    entries: items.map((item) => ({ item, ok: false, parsed: { error: "batch_parse_failed", raw }, raw }))
-  };
+  return flags;
 }
 
 async function markResult(
@@ -523,32 +323,81 @@ async function markResult(
   rawResponse: string,
   parsed: any,
   ok: boolean,
-  actualTarget: TargetSite
+  actualTarget: TargetSite,
+  validationErrors?: SchemaValidationError[],
+  dispatch?: DispatchRef
 ) {
-  const error =
-    !ok && parsed ? parsed.error || parsed.message || "parse_error" : null;
+  const hasValidationErrors = Boolean(validationErrors?.length);
+  const reviewFlags = computeReviewFlags(parsed, hasValidationErrors);
+  const error = hasValidationErrors
+    ? "schema_validation_failed"
+    : !ok && parsed
+      ? parsed.error || parsed.message || "parse_error"
+      : null;
   await db.results.put({
     id: item.id,
+    projectId: item.projectId ?? state.projectId,
     sampleId: item.sample.id || item.id,
     rawResponse,
     parsed,
     ok,
     error,
+    validationErrors: hasValidationErrors ? validationErrors : null,
     target: actualTarget,
+    run: item.run,
+    reviewFlags: reviewFlags.length ? reviewFlags : undefined,
+    chunk: item.chunk,
+    dispatchId: dispatch?.id ?? null,
+    promptVersionId: dispatch?.promptVersionId ?? null,
+    experiment: dispatch?.experiment || undefined,
     createdAt: Date.now()
   });
-  await db.queue.update(item.id, {
-    status: ok ? "done" : "error",
+  if (ok) {
+    await db.queue.update(item.id, {
+      status: "done",
+      lastError: null,
+      nextAttemptAt: null,
+      updatedAt: Date.now()
+    });
+  } else {
+    await db.queue.update(item.id, failureUpdate(item, error || "parse_error", "parse"));
+  }
+}
+
+// Queue fields for an item whose attempt failed: back to pending after a backoff delay, "dead"
+// once its attempts are used up, or "error" (left for a manual retry) when its class is not retried.
+function failureUpdate(item: QueueItem, error: string, stage: "send" | "parse"): Partial<QueueItem> {
+  const now = Date.now();
+  const attempts = (item.retries || 0) + 1;
+  // `item` is the claimed copy, so its target is the one from before the claim pinned it.
+  const base = {
+    target: item.target,
     lastError: error,
-    updatedAt: Date.now()
-  });
+    retries: attempts,
+    nextAttemptAt: null,
+    updatedAt: now
+  };
+  const errorClass = classifyError(error, stage);
+  if (!errorClass || !(state.settings.retryErrorClasses || []).includes(errorClass)) {
+    return { ...base, status: "error" };
+  }
+  if (attempts >= Math.max(1, state.settings.retryMaxAttempts || 1)) {
+    console.warn("[llm-labeler][bg] giving up on item", item.id, error, "after", attempts, "attempts");
+    return { ...base, status: "dead" };
+  }
+  return {
+    ...base,
+    status: "pending",
+    nextAttemptAt: now + computeRetryDelay(attempts, state.settings.retryBaseDelayMs)
+  };
 }
 
 async function markBatchResult(
   items: QueueItem[],
   rawResponse: string,
   parsed: any,
-  actualTarget: TargetSite
+  actualTarget: TargetSite,
+  dispatch?: DispatchRef
 ) {
   const createdAt = Date.now();
   let batchId = `batch-${createdAt}-${Math.random()}`;
@@ -559,12 +408,16 @@ async function markBatchResult(
   }
   await db.results.put({
     id: batchId,
+    projectId: items[0]?.projectId ?? state.projectId,
     sampleId: batchId,
     rawResponse,
     parsed,
     ok: true,
     error: null,
     target: actualTarget,
+    dispatchId: dispatch?.id ?? null,
+    promptVersionId: dispatch?.promptVersionId ?? null,
+    experiment: dispatch?.experiment || undefined,
     createdAt
   });
   await Promise.all(
@@ -578,9 +431,151 @@ async function markBatchResult(
   );
 }
 
-async function loadPromptFromDB(): Promise<string> {
-  const doc = await db.prompts.get("active");
-  return normalizePromptInput(doc?.prompt ?? DEFAULT_PROMPT);
+// The project's active prompt version, or its draft when no version was saved yet.
+async function loadPromptFromDB(projectId: string): Promise<{
+  prompt: string;
+  itemTemplate: string;
+  schema: string;
+  versionId: string | null;
+}> {
+  const doc = await db.prompts.get(projectId);
+  const version = doc?.versionId ? await db.promptVersions.get(doc.versionId) : undefined;
+  if (version) {
+    return {
+      prompt: normalizePromptInput(version.prompt),
+      itemTemplate: version.itemTemplate,
+      schema: version.schema,
+      versionId: version.id
+    };
+  }
+  return {
+    prompt: normalizePromptInput(doc?.prompt ?? DEFAULT_PROMPT),
+    itemTemplate: typeof doc?.itemTemplate === "string" ? doc.itemTemplate : "",
+    schema: typeof doc?.schema === "string" ? doc.schema : "",
+    versionId: null
+  };
+}
+
+// Active prompt plus the variants of the experiment in state.settings.
+async function loadPromptState(projectId: string) {
+  const promptDoc = await loadPromptFromDB(projectId);
+  state.prompt = promptDoc.prompt;
+  state.itemTemplate = promptDoc.itemTemplate;
+  state.schema = promptDoc.schema;
+  state.promptVersionId = promptDoc.versionId;
+  const versions = await db.promptVersions.bulkGet(state.settings.experimentVersionIds ?? []);
+  state.variants = versions
+    .filter((v): v is PromptVersion => v?.projectId === projectId)
+    .map((v) => ({
+      prompt: normalizePromptInput(v.prompt),
+      itemTemplate: v.itemTemplate,
+      schema: v.schema,
+      versionId: v.id,
+      experiment: true
+    }));
+}
+
+// Set on entries that came from a schema re-ask rather than the batch's own reply.
+type BatchParseEntry = ParsedEntry & { dispatch?: DispatchRef };
+
+function buildRepairPrompt(failing: BatchParseEntry[]) {
+  const lines = failing.map((entry) => {
+    const id = entry.item.sample.id || entry.item.id;
+    return `- item ${JSON.stringify(id)}: ${formatValidationErrors(entry.validationErrors || [])}`;
+  });
+  return [
+    "Some items in your previous reply did not match the required output format:",
+    ...lines,
+    "",
+    "Resend only those items, corrected, as a JSON array in the same format as before. Do not repeat the other items."
+  ].join("\n");
+}
+
+type EarlyCommitter = {
+  onText: (text: string) => void;
+  // Queue ids already written from streamed text.
+  committed: Set<string>;
+  settled: () => Promise<void>;
+};
+
+// Commit items from a partial reply as soon as their object closes, so a timeout or tab crash
+// late in a long reply keeps what was already produced. Only objects that name one of the batch's
+// samples by id (and pass the schema, if set) are taken; the rest wait for the final reply, where
+// positional matching and schema repair still apply.
+function createEarlyCommitter(
+  items: QueueItem[],
+  target: TargetSite,
+  schema: JsonSchema | null,
+  dispatch: DispatchRef
+): EarlyCommitter {
+  const byId = new Map(items.map((item) => [String(item.sample.id || item.id), item]));
+  const committed = new Set<string>();
+  let chain = Promise.resolve();
+  return {
+    committed,
+    onText(text) {
+      for (const obj of extractObjectList(text) || []) {
+        const id = obj?.id ?? obj?.sampleId ?? obj?.sample_id;
+        const item = id != null ? byId.get(String(id)) : undefined;
+        if (!item || committed.has(item.id)) continue;
+        if (schema && validateJsonSchema(schema, obj).length) continue;
+        committed.add(item.id);
+        const ok = typeof obj.ok === "undefined" ? true : Boolean(obj.ok);
+        const parsed = normalizeParsed(obj, item.sample.id || item.id);
+        chain = chain
+          .then(() =>
+            markResult(item, JSON.stringify(obj), parsed, ok, target, undefined, dispatch)
+          )
+          .then(() => stitchChunks(item))
+          .then(() => updateConsensus(item))
+          .catch((err: any) => {
+            console.warn("[llm-labeler][bg] early commit failed", item.id, err?.message || err);
+          });
+      }
+    },
+    settled: () => chain
+  };
+}
+
+// Ask the model (in the same chat) to resend entries that failed schema validation.
+async function repairSchemaFailures(
+  worker: DispatchWorker,
+  send: PromptSender,
+  entries: BatchParseEntry[],
+  schema: JsonSchema,
+  batch: DispatchRef
+) {
+  const rounds = Math.max(0, Math.floor(state.settings.schemaRepairRounds || 0));
+  for (let round = 1; round <= rounds; round++) {
+    const failing = entries.filter((entry) => entry.validationErrors?.length);
+    if (!failing.length || !state.running) return;
+    console.debug("[llm-labeler][bg] schema repair round", round, "items", failing.length);
+    // Re-asks answer the batch's prompt, so they carry its version.
+    const dispatch = newDispatch(worker, batch.promptVersionId, batch.experiment);
+    const res = await send(
+      buildRepairPrompt(failing),
+      failing.map((entry) => entry.item.id),
+      "repair",
+      dispatch
+    );
+    if (!res.ok || !res.reply) {
+      console.warn("[llm-labeler][bg] schema repair send failed", res.error);
+      return;
+    }
+    const reparsed = parseRepairResponse(res.reply, failing.map((entry) => entry.item));
+    applySchema(reparsed, schema);
+    for (const next of reparsed) {
+      if (!next.ok) continue;
+      const idx = entries.findIndex((entry) => entry.item.id === next.item.id);
+      if (idx === -1) continue;
+      entries[idx] = { ...next, parsed: { ...next.parsed, repairRound: round }, dispatch };
+    }
+    for (const next of reparsed) {
+      if (!next.validationErrors?.length) continue;
+      const current = entries.find((entry) => entry.item.id === next.item.id);
+      if (current?.validationErrors?.length) current.validationErrors = next.validationErrors;
+    }
+  }
 }
 
 async function reconcileInflightItems() {
@@ -589,7 +584,8 @@ async function reconcileInflightItems() {
   const now = Date.now();
   for (const item of inflight) {
     const existingResult = await db.results.get(item.id);
-    if (existingResult) {
+    // A result older than the claim belongs to an earlier, failed attempt.
+    if (existingResult && existingResult.createdAt >= item.updatedAt) {
       await db.queue.update(item.id, {
         status: existingResult.ok ? "done" : "error",
         lastError: existingResult.error ?? null,
@@ -606,146 +602,947 @@ async function reconcileInflightItems() {
   }
 }
 
-async function processOne(): Promise<boolean> {
-  const batchSize = Math.max(1, state.settings.batchSize || 1);
-  const items = await db.queue
-    .where("[status+seq]")
-    .between(["pending", Dexie.minKey], ["pending", Dexie.maxKey])
-    .limit(batchSize)
-    .toArray();
-  if (!items.length) return false;
+function batchSizeBounds() {
+  const min = Math.max(1, Math.floor(state.settings.minBatchSize || 1));
+  const max = Math.max(min, Math.floor(state.settings.maxBatchSize || min));
+  return { min, max };
+}
 
-  const detected = await ensureTargetTab();
-  if (!detected) {
-    console.warn("[llm-labeler][bg] no target tab found");
+function resetBatchSizing() {
+  const adaptive = Boolean(state.settings.adaptiveBatchSize);
+  const { min, max } = batchSizeBounds();
+  const configured = Math.max(1, state.settings.batchSize || 1);
+  batchSizing.adaptive = adaptive;
+  batchSizing.size = adaptive ? Math.min(max, Math.max(min, configured)) : configured;
+  batchSizing.reason = adaptive ? "starting size" : "";
+  batchSizing.updatedAt = Date.now();
+  cleanBatchStreak = 0;
+}
+
+function setBatchSize(size: number, reason: string) {
+  batchSizing.size = size;
+  batchSizing.reason = reason;
+  batchSizing.updatedAt = Date.now();
+  console.debug("[llm-labeler][bg] batch size", size, reason);
+}
+
+// Feed the outcome of a sent batch back into the adaptive size. `problem` describes why the reply
+// did not fit the batch (truncated, count mismatch), or is null for a clean batch.
+function recordBatchFit(sent: number, problem: string | null) {
+  if (!batchSizing.adaptive || sent < 1) return;
+  const { min, max } = batchSizeBounds();
+  if (problem) {
+    cleanBatchStreak = 0;
+    const next = Math.max(min, Math.min(batchSizing.size, Math.floor(sent / 2)));
+    if (next < batchSizing.size) setBatchSize(next, `shrunk after ${problem}`);
+    return;
+  }
+  // A short batch (e.g. the queue tail) says nothing about whether a full one fits.
+  if (sent < batchSizing.size) return;
+  cleanBatchStreak += 1;
+  if (cleanBatchStreak < GROW_AFTER_CLEAN_BATCHES || batchSizing.size >= max) return;
+  cleanBatchStreak = 0;
+  const next = Math.min(max, batchSizing.size + Math.max(1, Math.floor(batchSizing.size / 4)));
+  setBatchSize(next, `grew after ${GROW_AFTER_CLEAN_BATCHES} clean batches`);
+}
+
+function describeCountProblem(sent: number, outputCount: number | undefined) {
+  if (outputCount == null || outputCount === sent) return null;
+  return outputCount < sent
+    ? `truncated reply (${outputCount} of ${sent} items)`
+    : `count mismatch (${outputCount} items for ${sent})`;
+}
+
+// Claim the next pending items for a worker. Reading and flagging happen in one transaction so two
+// tabs never pick up the same samples. Items pinned to another site or still backing off are
+// skipped; pins only hold between chat sites, so a project keeps running after the dispatch mode
+// is switched between web and API. A batch never carries two consensus runs of the same sample
+// (their replies could not be told apart). With a prompt budget, items are packed in queue order until the next one
+// would push the prompt past it; the first item is always taken, so an oversized one still goes
+// out on its own. During an experiment only samples in its slice are claimed, and a batch holds
+// samples of one variant only; likewise it holds one consensus run only.
+async function claimBatch(
+  worker: DispatchWorker
+): Promise<{ items: QueueItem[]; parts: PromptParts }> {
+  const batchSize = Math.max(1, batchSizing.size || 1);
+  const budget = Math.max(0, state.settings.maxPromptChars || 0);
+  const active = activePrompt();
+  const variants = state.variants;
+  const promptFor = (item: QueueItem) => {
+    if (!variants.length) return active;
+    // Parts of a split sample follow the sample, so they are merged from one variant's outputs.
+    const routingId = item.chunk?.sampleId || item.sample.id || item.id;
+    const slot = routeToVariant(routingId, variants.length, state.settings.experimentPercent);
+    return slot === null ? null : variants[slot];
+  };
+  let parts: PromptParts | null = null;
+  let promptChars = 0;
+  return db.transaction("rw", db.queue, async () => {
+    const sampleIds = new Set<string>();
+    let run: number | null = null;
+    let taken = 0;
+    let full = false;
+    const claimedAt = Date.now();
+    const items = await db.queue
+      .where("[projectId+status+seq]")
+      .between(
+        [state.projectId, "pending", Dexie.minKey],
+        [state.projectId, "pending", Dexie.maxKey]
+      )
+      .until(() => full)
+      .filter((item) => {
+        const pinned = item.target !== "auto" && item.target !== "api" && worker.target !== "api";
+        if (pinned && item.target !== worker.target) return false;
+        if ((item.nextAttemptAt || 0) > claimedAt) return false;
+        const sampleId = item.sample.id || item.id;
+        if (sampleIds.has(sampleId)) return false;
+        if (taken && (item.run ?? null) !== run) return false;
+        const itemParts = promptFor(item);
+        if (!itemParts || (parts && itemParts !== parts)) return false;
+        if (budget) {
+          const size = measureItem(item, itemParts.itemTemplate);
+          if (!taken) {
+            promptChars = promptOverhead(itemParts.prompt, itemParts.itemTemplate);
+          } else if (promptChars + size > budget) {
+            full = true;
+            return false;
+          }
+          promptChars += size;
+        }
+        parts = itemParts;
+        run = item.run ?? null;
+        sampleIds.add(sampleId);
+        taken += 1;
+        return true;
+      })
+      .limit(batchSize)
+      .toArray();
     for (const item of items) {
       await db.queue.update(item.id, {
-        lastError: "target_tab_not_found",
-        updatedAt: Date.now()
+        status: "inflight",
+        target: worker.target as AutoTarget,
+        updatedAt: claimedAt
       });
     }
+    return { items, parts: parts ?? active };
+  });
+}
+
+type BatchOutcome = "empty" | "done" | "send_failed" | "site_blocked";
+
+function startCooldown(worker: DispatchWorker, kind: SiteIssueKind, error: string) {
+  const cooldownMs =
+    kind === "site_error"
+      ? Math.min(SITE_ERROR_COOLDOWN_MS, state.settings.siteCooldownMs)
+      : state.settings.siteCooldownMs;
+  worker.cooldownUntil = Date.now() + Math.max(0, cooldownMs);
+  worker.lastError = error;
+  console.warn("[llm-labeler][bg] cooling down", worker.key, kind, "for", cooldownMs, "ms");
+}
+
+// Identifies a dispatch and the prompt version its batch was built from. Made by the caller
+// (newDispatch) so results committed while the reply is still streaming can already point at it.
+type DispatchRef = { id: string; promptVersionId: string | null; experiment: boolean };
+
+// Sends one prompt of a batch. Follow-ups (schema repair) go through the same sender so they land
+// in the same chat tab or API conversation.
+type PromptSender = (
+  prompt: string,
+  itemIds: string[],
+  kind: DispatchRecord["kind"],
+  dispatch: DispatchRef,
+  streamId?: string
+) => Promise<RunPromptResponse>;
+
+function newDispatch(
+  worker: DispatchWorker,
+  promptVersionId: string | null,
+  experiment: boolean
+): DispatchRef {
+  return {
+    id: `${worker.key}:${Date.now()}:${Math.random().toString(36).slice(2, 8)}`,
+    promptVersionId,
+    experiment
+  };
+}
+
+async function recordOutputCount(dispatch: DispatchRef, outputCount: number | null) {
+  try {
+    await db.dispatches.update(dispatch.id, { outputCount });
+  } catch (err: any) {
+    console.warn("[llm-labeler][bg] dispatch update failed", err?.message || err);
+  }
+}
+
+async function sha256Hex(text: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function apiConfig(): ApiConfig {
+  return {
+    baseUrl: state.settings.apiBaseUrl || "",
+    model: state.settings.apiModel || "",
+    apiKey: state.settings.apiKey || ""
+  };
+}
+
+async function createPromptSender(worker: DispatchWorker): Promise<PromptSender> {
+  const conversation = worker.conversation;
+  let send: PromptSender;
+  let readUrl: () => Promise<string | null>;
+  if (worker.target === "api") {
+    send = (prompt) => {
+      conversation.api ??= createApiConversation(apiConfig());
+      return conversation.api(prompt);
+    };
+    readUrl = async () => apiConfig().baseUrl || null;
+  } else {
+    const tabId = worker.tabId!;
+    await ensureContentScript(tabId);
+    send = (prompt, itemIds, _kind, _dispatch, streamId) =>
+      sendPromptToTab(tabId, prompt, itemIds.join(","), streamId);
+    readUrl = async () => {
+      try {
+        return (await chrome.tabs.get(tabId)).url ?? null;
+      } catch {
+        return null;
+      }
+    };
+  }
+  return async (prompt, itemIds, kind, dispatch, streamId) => {
+    const sentAt = Date.now();
+    const res = await send(prompt, itemIds, kind, dispatch, streamId);
+    // Everything typed and read back counts toward the conversation's length limit.
+    conversation.chars += prompt.length + (res.reply?.length || 0);
+    await recordDispatch(worker, {
+      ...dispatch,
+      kind,
+      itemIds,
+      sentAt,
+      firstTextAt: streamId ? replyStreams.get(streamId)?.firstTextAt ?? null : null,
+      url: await readUrl(),
+      prompt,
+      res
+    });
+    return res;
+  };
+}
+
+async function recordDispatch(
+  worker: DispatchWorker,
+  dispatch: DispatchRef & {
+    kind: DispatchRecord["kind"];
+    itemIds: string[];
+    sentAt: number;
+    firstTextAt: number | null;
+    url: string | null;
+    prompt: string;
+    res: RunPromptResponse;
+  }
+) {
+  const { res, prompt } = dispatch;
+  const reply = res.reply || "";
+  try {
+    await db.dispatches.put({
+      id: dispatch.id,
+      projectId: state.projectId,
+      target: worker.target,
+      tabId: worker.tabId,
+      url: dispatch.url,
+      workerKey: worker.key,
+      conversationId: worker.conversation.id,
+      kind: dispatch.kind,
+      itemCount: dispatch.itemIds.length,
+      itemIds: dispatch.itemIds,
+      prompt,
+      promptHash: await sha256Hex(prompt),
+      promptVersionId: dispatch.promptVersionId,
+      experiment: dispatch.experiment || undefined,
+      rawHtml: res.rawHtml ?? null,
+      sentAt: dispatch.sentAt,
+      firstTextAt: dispatch.firstTextAt,
+      completedAt: Date.now(),
+      promptChars: prompt.length,
+      replyChars: reply.length,
+      inputTokens: res.usage?.inputTokens ?? estimateTokens(prompt),
+      outputTokens: res.usage?.outputTokens ?? estimateTokens(reply),
+      ok: Boolean(res.ok && res.reply),
+      error: res.ok ? null : res.error || "send_failed"
+    });
+  } catch (err: any) {
+    console.warn("[llm-labeler][bg] dispatch record failed", err?.message || err);
+  }
+}
+
+function newConversation(opened: boolean): Conversation {
+  const id = `chat-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  return { id, batches: 0, chars: 0, rules: null, run: null, opened, api: null };
+}
+
+function conversationFull(worker: DispatchWorker, parts: PromptParts, run: number | null) {
+  // During an experiment a chat holds one variant's prompt only, so earlier replies to another
+  // variant cannot steer the answers being compared.
+  const { rules } = worker.conversation;
+  if (state.variants.length && rules !== null && rules !== parts.prompt) return true;
+  // Likewise a chat of our own holds one consensus run only, so no run sees another's answers.
+  if (run !== null) {
+    const current = worker.conversation;
+    if (!current.opened || (current.run !== null && current.run !== run)) return true;
+  }
+  // API requests resend the whole history, so without a limit every batch gets its own
+  // conversation there, as a single request.
+  const everyBatches =
+    state.settings.newChatEveryBatches || (worker.target === "api" ? 1 : 0);
+  const maxChars = state.settings.newChatMaxChars || 0;
+  if (!everyBatches && !maxChars) return false;
+  const { batches, chars, opened } = worker.conversation;
+  // Limits count from an empty chat, so a tab's existing conversation is replaced first.
+  if (!opened) return true;
+  return (everyBatches > 0 && batches >= everyBatches) || (maxChars > 0 && chars >= maxChars);
+}
+
+// Ask the tab's content script for a new chat, falling back to reloading the site's home page.
+async function openNewChat(worker: DispatchWorker) {
+  if (worker.target === "api") return true;
+  const tabId = worker.tabId!;
+  try {
+    const res = await sendMessage<{ ok?: boolean }>(tabId, { type: "new_chat" });
+    if (res?.ok) {
+      await new Promise((r) => setTimeout(r, NEW_CHAT_SETTLE_MS));
+      return true;
+    }
+  } catch (err: any) {
+    console.warn("[llm-labeler][bg] new chat message failed", err?.message || err);
+  }
+  const site = SITES[worker.target as WebSite];
+  if (!site) return false;
+  try {
+    await chrome.tabs.update(tabId, { url: site.homeUrl });
+    await waitForTabComplete(tabId);
+    injectedTabs.delete(tabId);
+    await ensureContentScript(tabId);
+    return true;
+  } catch (err: any) {
+    console.warn("[llm-labeler][bg] new chat via reload failed", err?.message || err);
     return false;
   }
+}
+
+async function refreshConversation(
+  worker: DispatchWorker,
+  parts: PromptParts,
+  run: number | null
+) {
+  if (!conversationFull(worker, parts, run)) return;
+  const previous = worker.conversation;
+  const ok = await openNewChat(worker);
+  console.debug(
+    "[llm-labeler][bg] new chat for",
+    worker.key,
+    ok ? "opened" : "failed",
+    "after",
+    previous.batches,
+    "batches",
+    previous.chars,
+    "chars"
+  );
+  // When the site offers no way out, keep going in the old chat (rules included) rather than
+  // retrying before every batch; a different prompt is then sent in full.
+  worker.conversation = ok
+    ? newConversation(true)
+    : {
+        ...previous,
+        batches: 0,
+        chars: 0,
+        opened: true,
+        rules: previous.rules === parts.prompt ? previous.rules : null,
+        run: null
+      };
+}
+
+function buildPrompt(
+  items: QueueItem[],
+  conversation: Conversation,
+  parts: PromptParts,
+  records?: SourceRecordMap
+) {
+  return state.settings.rulesOncePerChat && conversation.rules === parts.prompt
+    ? buildFollowUpPrompt(items, parts.itemTemplate, records)
+    : buildBatchPrompt(items, parts.prompt, parts.itemTemplate, records);
+}
+
+// The claim packs items on an estimate without source-record fields; items that push the finished
+// prompt past the budget go back to the queue here.
+async function fitPromptBudget(
+  items: QueueItem[],
+  conversation: Conversation,
+  parts: PromptParts
+) {
+  const budget = Math.max(0, state.settings.maxPromptChars || 0);
+  const records = usesSourceRecord(parts.itemTemplate) ? await loadSourceRecords(items) : undefined;
+  const kept = [...items];
+  let prompt = buildPrompt(kept, conversation, parts, records);
+  while (budget && prompt.length > budget && kept.length > 1) {
+    const item = kept.pop()!;
+    await db.queue.update(item.id, {
+      status: "pending",
+      target: item.target,
+      updatedAt: Date.now()
+    });
+    prompt = buildPrompt(kept, conversation, parts, records);
+  }
+  return { items: kept, prompt };
+}
+
+async function processOne(worker: DispatchWorker): Promise<BatchOutcome> {
+  const { items: claimed, parts } = await claimBatch(worker);
+  if (!claimed.length) return "empty";
+  try {
+    return await processBatch(worker, claimed, parts);
+  } catch (err: any) {
+    await releaseClaimed(claimed, err?.message || String(err));
+    throw err;
+  }
+}
+
+// After a crash mid-batch, claimed items that are still in flight (no result committed, not already
+// handed back by fitPromptBudget) go back through the retry policy instead of waiting for the next
+// Start to reconcile them.
+async function releaseClaimed(claimed: QueueItem[], error: string) {
+  try {
+    const current = await db.queue.bulkGet(claimed.map((item) => item.id));
+    for (const [idx, item] of claimed.entries()) {
+      if (current[idx]?.status !== "inflight") continue;
+      await db.queue.update(item.id, failureUpdate(item, error, "send"));
+    }
+  } catch (err: any) {
+    console.warn("[llm-labeler][bg] releasing claimed items failed", err?.message || err);
+  }
+}
+
+async function processBatch(
+  worker: DispatchWorker,
+  claimed: QueueItem[],
+  parts: PromptParts
+): Promise<BatchOutcome> {
+  const { tabId, target } = worker;
+  // claimBatch keeps to one consensus run per batch.
+  const run = claimed[0]?.run ?? null;
+  await refreshConversation(worker, parts, run);
+  const conversation = worker.conversation;
+  const send = await createPromptSender(worker);
+  const { items, prompt } = await fitPromptBudget(claimed, conversation, parts);
+  // Taken with the prompt, so a version saved while the reply streams does not relabel this batch.
+  const dispatch = newDispatch(worker, parts.versionId, parts.experiment);
 
-  const { tabId, target } = detected;
   console.debug(
     "[llm-labeler][bg] processing batch",
     items.map((i) => i.id).join(","),
     "target",
-    target
+    target,
+    "tab",
+    tabId
   );
 
-  await ensureContentScript(tabId, target);
+  const { schema, error: schemaError } = parseSchemaText(parts.schema);
+  if (schemaError) {
+    console.warn("[llm-labeler][bg] ignoring invalid output schema", schemaError);
+  }
 
-  await Promise.all(
-    items.map((item) =>
-      db.queue.update(item.id, {
-        status: "inflight",
-        target: target as AutoTarget,
-        updatedAt: Date.now()
-      })
-    )
-  );
+  // Batch-level output cannot be split per item, so only match_input batches stream commits.
+  const streamId = `${worker.key}:${++streamCounter}`;
+  const early =
+    items.length > 1 && state.settings.outputCountMode !== "allow_mismatch"
+      ? createEarlyCommitter(items, target, schema, dispatch)
+      : null;
+  replyStreams.set(streamId, { firstTextAt: null, early });
 
-  const prompt = buildBatchPrompt(items, state.prompt);
-  const res = await sendPromptToTab(tabId, prompt, items.map((i) => i.id).join(","));
-  if (!res.ok || !res.reply) {
-    console.warn("[llm-labeler][bg] send failed", res.error);
+  let res: Awaited<ReturnType<typeof sendPromptToTab>>;
+  try {
+    res = await send(
+      prompt,
+      items.map((i) => i.id),
+      "batch",
+      dispatch,
+      streamId
+    );
+  } finally {
+    replyStreams.delete(streamId);
+    await early?.settled();
+  }
+  const committed = early?.committed ?? new Set<string>();
+  if (!res.ok && res.errorKind) {
+    // The site refused the prompt or broke off the reply (quota, captcha, error banner). That is
+    // not the items' fault: they return to the queue with their original target and no attempt
+    // counted, and the tab rests while other tabs carry on.
+    const error = res.error || res.errorKind;
     for (const item of items) {
+      if (committed.has(item.id)) continue;
       await db.queue.update(item.id, {
-        status: "error",
-        lastError: res.error || "send_failed",
-        retries: (item.retries || 0) + 1,
+        status: "pending",
+        target: item.target,
+        lastError: error,
         updatedAt: Date.now()
       });
     }
-    return true;
+    startCooldown(worker, res.errorKind, error);
+    return "site_blocked";
+  }
+  if (!res.ok || !res.reply) {
+    console.warn("[llm-labeler][bg] send failed", res.error);
+    worker.lastError = res.error || "send_failed";
+    if (committed.size) {
+      console.debug("[llm-labeler][bg] kept streamed results", committed.size, "of", items.length);
+      // The reply broke off part-way, which is the clearest sign the batch was too large.
+      recordBatchFit(
+        items.length,
+        `reply cut off after ${committed.size} of ${items.length} items`
+      );
+    }
+    for (const item of items) {
+      if (committed.has(item.id)) continue;
+      await db.queue.update(item.id, failureUpdate(item, res.error || "send_failed", "send"));
+    }
+    return "send_failed";
   }
+  worker.batches += 1;
+  worker.items += items.length;
+  conversation.batches += 1;
+  conversation.rules = parts.prompt;
+  conversation.run = run;
 
+  let entries: BatchParseEntry[];
   if (items.length === 1) {
     const item = items[0];
     const parsedResult = parseSingleResponse(res.reply, item);
-    await markResult(item, res.reply, parsedResult.parsed, parsedResult.ok, target);
-    if (!parsedResult.ok) {
-      console.warn("[llm-labeler][bg] parse error", parsedResult.parsed);
-    }
-    console.debug("[llm-labeler][bg] done", item.id, "ok:", parsedResult.ok);
+    await recordOutputCount(dispatch, 1);
+    // A lone item that fails to parse is not a sign the batch is too large.
+    if (parsedResult.ok) recordBatchFit(1, null);
+    entries = [
+      {
+        item,
+        ok: parsedResult.ok,
+        parsed: parsedResult.parsed,
+        raw: res.reply,
+        source: parsedResult.source
+      }
+    ];
   } else {
     const allowCountMismatch = state.settings.outputCountMode === "allow_mismatch";
     const parsed = parseBatchResponse(res.reply, items, allowCountMismatch);
+    await recordOutputCount(dispatch, parsed.mode === "batch_level" ? null : parsed.outputCount);
     if (parsed.mode === "batch_level") {
-      await markBatchResult(items, parsed.raw, parsed.parsed, target);
+      // Batch-level output cannot be attributed to individual samples, so it is not schema-checked.
+      await markBatchResult(items, parsed.raw, parsed.parsed, target, dispatch);
+      recordBatchFit(items.length, describeCountProblem(items.length, parsed.parsed.outputCount));
       console.debug(
         "[llm-labeler][bg] done batch as batch-level result",
         items.length,
         "target",
         target
       );
-    } else {
-      for (const entry of parsed.entries) {
-        await markResult(entry.item, entry.raw, entry.parsed, entry.ok, target);
-        if (!entry.ok) {
-          console.warn("[llm-labeler][bg] batch parse error", entry.parsed);
-        }
-      }
-      console.debug("[llm-labeler][bg] done batch", items.length);
+      return "done";
+    }
+    // Parse against the whole batch so positional matching still lines up, then drop the
+    // items that were already committed while streaming.
+    entries = parsed.entries.filter((entry) => !committed.has(entry.item.id));
+    recordBatchFit(items.length, describeCountProblem(items.length, parsed.outputCount));
+  }
+
+  if (schema) {
+    applySchema(entries, schema);
+    await repairSchemaFailures(worker, send, entries, schema, dispatch);
+  }
+
+  for (const entry of entries) {
+    await markResult(
+      entry.item,
+      entry.raw,
+      entry.parsed,
+      entry.ok,
+      target,
+      entry.validationErrors,
+      entry.dispatch ?? dispatch
+    );
+    if (!entry.ok) {
+      console.warn(
+        "[llm-labeler][bg] parse error",
+        entry.validationErrors?.length ? entry.validationErrors : entry.parsed
+      );
     }
+    await stitchChunks(entry.item);
+    await updateConsensus(entry.item);
   }
-  return true;
+  console.debug("[llm-labeler][bg] done batch", items.length);
+  return "done";
+}
+
+function runSuffix(item: QueueItem) {
+  return typeof item.run === "number" ? `#${item.run}` : "";
+}
+
+// Id of the merged result of a split sample (one per consensus run, like queue ids).
+function stitchedResultId(item: QueueItem, chunk: SampleChunk) {
+  return `${makeQueueId(item.projectId ?? state.projectId, chunk.sampleId)}${runSuffix(item)}`;
 }
 
-async function processBatch() {
-  if (!state.running || state.processing) return;
-  state.processing = true;
+// Once every part of a split sample has a good result, write the merged result for the whole
+// sample; while any part is missing or failed there is none.
+async function stitchChunks(item: QueueItem) {
+  const chunk = item.chunk;
+  if (!chunk) return;
+  const id = stitchedResultId(item, chunk);
+  const baseId = makeQueueId(item.projectId ?? state.projectId, chunk.sampleId);
+  const partIds = Array.from(
+    { length: chunk.parts },
+    (_, idx) => `${baseId}~${idx + 1}${runSuffix(item)}`
+  );
   try {
-    const ok = await processOne();
-    if (ok && state.running) {
-      state.timer = setTimeout(() => {
-        processBatch();
-      }, state.settings.responseDelayMs);
-    } else if (!ok) {
-      state.running = false;
-      lockedTarget = null;
-      if (state.timer) clearTimeout(state.timer);
-      state.timer = null;
+    const parts = await db.results.bulkGet(partIds);
+    if (parts.some((part) => !part?.ok)) {
+      await db.results.delete(id);
+      return;
     }
-  } catch (err) {
+    const results = parts as ResultRecord[];
+    const reviewFlags = Array.from(new Set(results.flatMap((r) => r.reviewFlags ?? [])));
+    await db.results.put({
+      id,
+      projectId: item.projectId ?? state.projectId,
+      sampleId: chunk.sampleId,
+      rawResponse: results.map((r) => r.rawResponse).join("\n\n"),
+      parsed: mergeChunkOutputs(results.map((r) => r.parsed), chunk.sampleId),
+      ok: true,
+      error: null,
+      target: results[results.length - 1].target,
+      run: item.run,
+      reviewFlags: reviewFlags.length ? reviewFlags : undefined,
+      chunkCount: chunk.parts,
+      promptVersionId: results[results.length - 1].promptVersionId ?? null,
+      experiment: results[results.length - 1].experiment,
+      createdAt: Date.now()
+    });
+  } catch (err: any) {
+    console.warn("[llm-labeler][bg] stitching parts failed", id, err?.message || err);
+  }
+}
+
+async function updateConsensus(item: QueueItem) {
+  if (typeof item.run !== "number" || (item.runCount || 0) < 2) return;
+  // A split sample is compared through its merged result, which exists once all parts are done.
+  if (item.chunk && !(await db.results.get(stitchedResultId(item, item.chunk)))) return;
+  try {
+    await refreshConsensus(
+      item.projectId ?? state.projectId,
+      item.chunk?.sampleId || item.sample.id || item.id,
+      state.settings.consensusField || DEFAULT_CONSENSUS_FIELD,
+      item.runCount || 0
+    );
+  } catch (err: any) {
+    console.warn("[llm-labeler][bg] consensus update failed", err?.message || err);
+  }
+}
+
+function workerKey(tabId: number) {
+  return `tab:${tabId}`;
+}
+
+function setWorkerState(worker: DispatchWorker, next: DispatchWorkerState) {
+  worker.state = next;
+  worker.updatedAt = Date.now();
+}
+
+function scheduleWorker(worker: DispatchWorker, delayMs: number) {
+  if (worker.timer) clearTimeout(worker.timer);
+  worker.timer = setTimeout(() => {
+    worker.timer = null;
+    runWorker(worker);
+  }, delayMs);
+}
+
+function stopWorkers() {
+  for (const worker of workers.values()) {
+    if (worker.timer) clearTimeout(worker.timer);
+    worker.timer = null;
+    if (worker.state !== "failed" && !worker.processing) setWorkerState(worker, "idle");
+  }
+}
+
+// The run ends once no worker has a batch in flight or scheduled.
+function maybeFinishRun() {
+  const active = Array.from(workers.values()).some(
+    (w) => w.processing || w.state === "busy" || w.state === "waiting" || w.state === "cooldown"
+  );
+  if (active) return;
+  state.running = false;
+  lockedTarget = null;
+  stopWorkers();
+  console.debug("[llm-labeler][bg] dispatcher idle");
+}
+
+async function runWorker(worker: DispatchWorker) {
+  if (!state.running || worker.processing || worker.state === "failed") return;
+  if (!workers.has(worker.key)) return;
+  worker.processing = true;
+  setWorkerState(worker, "busy");
+  let outcome: BatchOutcome | "crashed" = "crashed";
+  try {
+    outcome = await processOne(worker);
+  } catch (err: any) {
     console.error("dispatch error", err);
+    worker.lastError = err?.message || String(err);
   } finally {
-    state.processing = false;
+    worker.processing = false;
+  }
+
+  if (outcome === "site_blocked" && state.running) {
+    setWorkerState(worker, "cooldown");
+    scheduleWorker(worker, Math.max(0, (worker.cooldownUntil || 0) - Date.now()));
+    // Bring in a tab of another site (if one is open) while this one rests.
+    startLoop();
+    return;
   }
+  if (outcome === "done") {
+    worker.failures = 0;
+    worker.lastError = null;
+    worker.cooldownUntil = null;
+  } else if (outcome === "send_failed" || outcome === "crashed") {
+    worker.failures += 1;
+    if (worker.failures >= MAX_CONSECUTIVE_TAB_FAILURES) {
+      console.warn("[llm-labeler][bg] tab taken out of rotation", worker.tabId, worker.lastError);
+      setWorkerState(worker, "failed");
+      // Its failed items went back to the queue for a retry; let the remaining tabs pick them up.
+      wakeIdleWorkers();
+      maybeFinishRun();
+      return;
+    }
+  }
+
+  if (outcome === "empty" && state.running) {
+    // Nothing claimable right now, but items backing off for a retry keep the worker around.
+    const dueAt = await nextRetryDueAt(worker);
+    if (dueAt != null) {
+      setWorkerState(worker, "waiting");
+      scheduleWorker(worker, Math.max(RETRY_POLL_MIN_MS, dueAt - Date.now()));
+      return;
+    }
+  }
+  if (outcome === "empty" || !state.running) {
+    setWorkerState(worker, "idle");
+    maybeFinishRun();
+    return;
+  }
+  setWorkerState(worker, "waiting");
+  scheduleWorker(worker, state.settings.responseDelayMs);
 }
 
-function startLoop() {
-  if (state.timer) {
-    clearTimeout(state.timer);
-    state.timer = null;
+// Earliest time a pending item this worker may claim becomes due, or null if none is pending.
+async function nextRetryDueAt(worker: DispatchWorker): Promise<number | null> {
+  let dueAt: number | null = null;
+  await db.queue
+    .where("[projectId+status]")
+    .equals([state.projectId, "pending"])
+    .each((item) => {
+      if (item.target !== "auto" && item.target !== worker.target) return;
+      const next = item.nextAttemptAt || 0;
+      if (dueAt == null || next < dueAt) dueAt = next;
+    });
+  return dueAt;
+}
+
+function wakeIdleWorkers() {
+  for (const worker of workers.values()) {
+    if (worker.state === "idle" && !worker.processing && !worker.timer) {
+      setWorkerState(worker, "waiting");
+      scheduleWorker(worker, 0);
+    }
   }
-  processBatch();
 }
 
-async function handleStart(settings: SettingsDoc) {
+function workerLimit() {
+  const limit = Math.max(1, Math.floor(state.settings.maxParallelTabs || 1));
+  // Cross-site consensus needs at least one tab per site.
+  if (state.settings.consensusMode === "sites" && state.settings.dispatchMode !== "api") {
+    return Math.max(limit, SITE_IDS.length);
+  }
+  return limit;
+}
+
+// With a single worker only the detected tab is used, unless `all` asks for every open tab
+// (e.g. to find a stand-in while the detected one cools down).
+async function discoverWorkerTabs(all = false): Promise<{ tabId: number; target: TargetSite }[]> {
+  // Repeat consensus pins every run to one site, so only that site's tabs can take the work.
+  const repeatSite =
+    state.settings.consensusMode === "repeat" && state.settings.dispatchMode !== "api"
+      ? state.settings.consensusRepeatSite
+      : null;
+  if (workerLimit() > 1 || all || repeatSite) {
+    const perTarget: { tabId: number; target: TargetSite }[][] = [];
+    for (const target of repeatSite ? [repeatSite] : SITE_IDS) {
+      const hits = await queryTabs({ url: SITES[target].matches });
+      perTarget.push(
+        hits
+          .filter((tab) => tab.id != null && !tab.discarded)
+          .map((tab) => ({ tabId: tab.id!, target }))
+      );
+    }
+    // Interleave sites so a limited pool still covers each of them.
+    const found: { tabId: number; target: TargetSite }[] = [];
+    const longest = Math.max(0, ...perTarget.map((list) => list.length));
+    for (let i = 0; i < longest; i++) {
+      perTarget.forEach((list) => {
+        if (list[i]) found.push(list[i]);
+      });
+    }
+    if (found.length) return found;
+  }
+  const single = await ensureTargetTab();
+  return single ? [single] : [];
+}
+
+function addWorker(key: string, tabId: number | null, target: TargetSite) {
+  workers.set(key, {
+    key,
+    tabId,
+    target,
+    state: "idle",
+    batches: 0,
+    items: 0,
+    failures: 0,
+    lastError: null,
+    updatedAt: Date.now(),
+    timer: null,
+    processing: false,
+    conversation: newConversation(tabId == null)
+  });
+}
+
+// API mode: one worker per parallel request slot.
+function syncApiWorkers() {
+  const limit = workerLimit();
+  for (let slot = 1; slot <= limit; slot++) {
+    const key = `api:${slot}`;
+    if (!workers.has(key)) addWorker(key, null, "api");
+  }
+}
+
+async function syncTabWorkers() {
+  const limit = workerLimit();
+  // A quota or captcha usually applies to the whole account, so other tabs of a cooling site are
+  // skipped and cooling tabs do not count against the limit.
+  const coolingTargets = new Set(
+    Array.from(workers.values())
+      .filter((w) => w.state === "cooldown")
+      .map((w) => w.target)
+  );
+  const tabs = await discoverWorkerTabs(coolingTargets.size > 0);
+  for (const tab of tabs) {
+    const key = workerKey(tab.tabId);
+    if (coolingTargets.has(tab.target)) continue;
+    const usable = Array.from(workers.values()).filter(
+      (w) => w.state !== "failed" && w.state !== "cooldown"
+    ).length;
+    if (workers.has(key) || usable >= limit) continue;
+    addWorker(key, tab.tabId, tab.target);
+  }
+}
+
+// Make sure every eligible tab (or API slot, up to the configured limit) has a worker, then wake
+// idle ones.
+async function syncWorkers() {
+  if (!state.running) return;
+  if (state.settings.dispatchMode === "api") {
+    syncApiWorkers();
+  } else {
+    await syncTabWorkers();
+  }
+
+  const runnable = Array.from(workers.values()).filter((w) => w.state !== "failed");
+  if (!runnable.length) {
+    console.warn("[llm-labeler][bg] no target tab found");
+    const pending = await db.queue
+      .where("[projectId+status]")
+      .equals([state.projectId, "pending"])
+      .primaryKeys();
+    await Promise.all(
+      pending.map((id) =>
+        db.queue.update(id, { lastError: "target_tab_not_found", updatedAt: Date.now() })
+      )
+    );
+    state.running = false;
+    lockedTarget = null;
+    return;
+  }
+  for (const worker of runnable) {
+    if (worker.state === "idle" && !worker.processing && !worker.timer) {
+      scheduleWorker(worker, 0);
+    }
+  }
+}
+
+function startLoop() {
+  syncWorkers().catch((err) => console.error("dispatch error", err));
+}
+
+async function handleStart(projectId: string, settings: SettingsDoc) {
   await reconcileInflightItems();
-  state.settings = { ...settings, id: "active", updatedAt: Date.now() };
+  if (state.projectId !== projectId) {
+    // Switching projects mid-run: drop the current tab lock so the new job starts fresh.
+    lockedTarget = null;
+  }
+  state.projectId = projectId;
+  state.settings = { ...settings, id: projectId, updatedAt: Date.now() };
   await db.settings.put(state.settings);
-  state.prompt = await loadPromptFromDB();
+  resetBatchSizing();
+  await loadPromptState(projectId);
+  // Failed tabs get another chance on an explicit start.
+  for (const [key, worker] of workers) {
+    if (!worker.processing) workers.delete(key);
+  }
   state.running = true;
   startLoop();
 }
 
 function handlePause() {
   state.running = false;
-  if (state.timer) clearTimeout(state.timer);
-  state.timer = null;
+  stopWorkers();
   lockedTarget = null;
 }
 
-async function handleStats(): Promise<StatsSnapshot> {
-  const pending = await db.queue.where("status").equals("pending").count();
-  const inflight = await db.queue.where("status").equals("inflight").count();
-  const done = await db.queue.where("status").equals("done").count();
-  const error = await db.queue.where("status").equals("error").count();
-  return { pending, inflight, done, error, running: state.running };
+// Latency percentiles and throughput look at this many of the project's latest dispatches.
+const METRICS_DISPATCH_LIMIT = 500;
+
+async function handleStats(projectId: string): Promise<StatsSnapshot> {
+  const count = (status: string) =>
+    db.queue.where("[projectId+status]").equals([projectId, status]).count();
+  const pending = await count("pending");
+  const inflight = await count("inflight");
+  const done = await count("done");
+  const error = await count("error");
+  const dead = await count("dead");
+  const dispatches = await db.dispatches
+    .where("[projectId+completedAt]")
+    .between([projectId, Dexie.minKey], [projectId, Dexie.maxKey])
+    .reverse()
+    .limit(METRICS_DISPATCH_LIMIT)
+    .toArray();
+  return {
+    pending,
+    inflight,
+    done,
+    error,
+    dead,
+    running: state.running && state.projectId === projectId,
+    runningProjectId: state.running ? state.projectId : null,
+    workers: Array.from(workers.values()).map(
+      ({ timer: _timer, processing: _processing, conversation, ...status }) => ({
+        ...status,
+        conversationBatches: conversation.batches
+      })
+    ),
+    batchSizing: { ...batchSizing },
+    metrics: summarizeDispatches(dispatches, pending + inflight)
+  };
 }
 
 chrome.runtime.onMessage.addListener(
@@ -754,10 +1551,10 @@ chrome.runtime.onMessage.addListener(
       try {
         switch (msg.type) {
           case "control:start":
-            await handleStart({
+            await handleStart(msg.projectId, {
               ...DEFAULT_SETTINGS,
               ...msg.settings,
-              id: "active",
+              id: msg.projectId,
               updatedAt: Date.now()
             });
             sendResponse({ ok: true, type: "control:start" });
@@ -766,22 +1563,35 @@ chrome.runtime.onMessage.addListener(
             handlePause();
             sendResponse({ ok: true, type: "control:pause" });
             break;
-          case "prompt:update":
-            state.prompt = normalizePromptInput(msg.prompt);
+          case "prompt:update": {
+            const prompt = normalizePromptInput(msg.prompt);
+            const schema = typeof msg.schema === "string" ? msg.schema : "";
+            const itemTemplate = typeof msg.itemTemplate === "string" ? msg.itemTemplate : "";
+            const versionId = msg.versionId ?? null;
+            if (msg.projectId === state.projectId) {
+              state.prompt = prompt;
+              state.itemTemplate = itemTemplate;
+              state.schema = schema;
+              state.promptVersionId = versionId;
+            }
             await db.prompts.put({
-              id: "active",
-              prompt: state.prompt,
+              id: msg.projectId,
+              prompt,
+              itemTemplate,
+              schema,
+              versionId,
               updatedAt: Date.now()
             });
             sendResponse({ ok: true, type: "prompt:update" });
             break;
+          }
           case "stats:request": {
-            const stats = await handleStats();
+            const stats = await handleStats(msg.projectId);
             sendResponse({ ok: true, type: "stats:request", stats });
             break;
           }
           case "queue:flush":
-            processBatch();
+            startLoop();
             sendResponse({ ok: true, type: "control:start" });
             break;
           case "detect:target": {
@@ -810,10 +1620,23 @@ chrome.runtime.onMessage.addListener(
 );
 
 // Load last settings on install
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== REPLY_STREAM_PORT) return;
+  port.onMessage.addListener((msg: ReplyStreamMessage) => {
+    if (msg?.type !== "reply_chunk") return;
+    const stream = replyStreams.get(msg.streamId);
+    if (!stream) return;
+    stream.firstTextAt ??= Date.now();
+    stream.early?.onText(String(msg.text || ""));
+  });
+});
+
 chrome.runtime.onInstalled.addListener(async () => {
-  const existing = await db.settings.get("active");
+  await ensureDefaultProject();
+  const existing = await db.settings.get(state.projectId);
   state.settings = existing ? { ...DEFAULT_SETTINGS, ...existing } : DEFAULT_SETTINGS;
-  state.prompt = await loadPromptFromDB();
+  resetBatchSizing();
+  await loadPromptState(state.projectId);
   await reconcileInflightItems();
   if (chrome.sidePanel?.setPanelBehavior) {
     chrome.sidePanel
@@ -836,8 +1659,7 @@ function enableSidePanel(tabId: number) {
 
 function maybeEnableSidePanel(tab: chrome.tabs.Tab) {
   if (!tab.id || !tab.url) return;
-  const targets = ["https://gemini.google.com/", "https://chatgpt.com/"];
-  if (targets.some((u) => tab.url?.startsWith(u))) {
+  if (siteForUrl(tab.url)) {
     enableSidePanel(tab.id);
   }
 }
@@ -845,6 +1667,8 @@ function maybeEnableSidePanel(tab: chrome.tabs.Tab) {
 chrome.tabs.onUpdated.addListener((_tabId, changeInfo, tab) => {
   if (changeInfo.status === "complete") {
     maybeEnableSidePanel(tab);
+    // A newly opened chat tab can join a parallel run.
+    if (state.running && workerLimit() > 1) startLoop();
   }
 });
 
@@ -854,6 +1678,12 @@ chrome.tabs.onCreated.addListener((tab) => {
 
 chrome.tabs.onRemoved.addListener((tabId) => {
   injectedTabs.delete(tabId);
+  const worker = workers.get(workerKey(tabId));
+  if (worker) {
+    if (worker.timer) clearTimeout(worker.timer);
+    workers.delete(worker.key);
+    if (state.running) maybeFinishRun();
+  }
   if (lockedTarget?.tabId === tabId) {
     lockedTarget = null;
   }
@@ -872,9 +1702,10 @@ chrome.action.onClicked.addListener(async (tab) => {
 });
 
 chrome.runtime.onStartup.addListener(async () => {
-  const existing = await db.settings.get("active");
+  const existing = await db.settings.get(state.projectId);
   state.settings = existing ? { ...DEFAULT_SETTINGS, ...existing } : DEFAULT_SETTINGS;
-  state.prompt = await loadPromptFromDB();
+  resetBatchSizing();
+  await loadPromptState(state.projectId);
   await reconcileInflightItems();
   if (chrome.sidePanel?.setPanelBehavior) {
     chrome.sidePanel
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  applySchema,
+  parseBatchResponse,
+  parseRepairResponse,
+  parseSingleResponse
+} from "./parse";
+import type { QueueItem } from "../shared/types";
+
+function item(id: string): QueueItem {
+  return {
+    id: `p:${id}`,
+    projectId: "p",
+    seq: 0,
+    prompt: JSON.stringify({ id, text: id }),
+    sample: { id, text: id },
+    status: "inflight",
+    target: "auto",
+    retries: 0,
+    createdAt: 0,
+    updatedAt: 0
+  };
+}
+
+const items = [item("a"), item("b"), item("c")];
+
+describe("parseBatchResponse", () => {
+  it("matches a fenced JSON array by id", () => {
+    const reply = [
+      "Here you go:",
+      "```json",
+      '[{"id": "c", "output_text": "C"}, {"id": "a", "output_text": "A"}, {"id": "b", "output": "B"}]',
+      "```"
+    ].join("\n");
+    const result = parseBatchResponse(reply, items, false);
+    expect(result.mode).toBe("per_item");
+    if (result.mode !== "per_item") return;
+    expect(result.outputCount).toBe(3);
+    expect(result.entries.map((e) => [e.item.id, e.ok, e.parsed.output_text])).toEqual([
+      ["p:a", true, "A"],
+      ["p:b", true, "B"],
+      ["p:c", true, "C"]
+    ]);
+  });
+
+  it("reports items the reply left out", () => {
+    const result = parseBatchResponse('[{"id": "a", "output_text": "A"}]', items, false);
+    if (result.mode !== "per_item") throw new Error("expected per-item entries");
+    expect(result.outputCount).toBe(1);
+    expect(result.entries.map((e) => e.ok)).toEqual([true, false, false]);
+    expect(result.entries[2].parsed.error).toBe("missing_result_for_id");
+  });
+
+  it("keeps a mismatched reply whole when the count may differ", () => {
+    const result = parseBatchResponse('[{"id": "x", "output_text": "all"}]', items, true);
+    expect(result.mode).toBe("batch_level");
+    if (result.mode !== "batch_level") return;
+    expect(result.parsed).toMatchObject({ output_text: "all", inputCount: 3, outputCount: 1 });
+  });
+
+  it("falls back to one line per item for replies that are not JSON", () => {
+    const result = parseBatchResponse("first\nsecond\nthird", items, false);
+    if (result.mode !== "per_item") throw new Error("expected per-item entries");
+    expect(result.entries.map((e) => e.parsed.output_text)).toEqual(["first", "second", "third"]);
+    expect(result.entries[0].parsed.parseMode).toBe("line_split_fallback");
+  });
+
+  it("fails every item of an empty reply", () => {
+    const result = parseBatchResponse("", items, false);
+    if (result.mode !== "per_item") throw new Error("expected per-item entries");
+    const errors = result.entries.map((e) => (e.ok ? null : e.parsed.error));
+    expect(errors).toEqual(["batch_parse_failed", "batch_parse_failed", "batch_parse_failed"]);
+  });
+});
+
+describe("parseSingleResponse", () => {
+  it("reads one object and honours its ok flag", () => {
+    expect(parseSingleResponse('{"output_text": "x"}', items[0])).toMatchObject({
+      ok: true,
+      parsed: { id: "a", output_text: "x" }
+    });
+    expect(parseSingleResponse('[{"ok": false, "error": "no"}]', items[0]).ok).toBe(false);
+  });
+});
+
+describe("parseRepairResponse", () => {
+  it("matches corrections by id only", () => {
+    const entries = parseRepairResponse(
+      '[{"id": "c", "label": "neg"}, {"label": "pos"}, {"id": "zzz", "label": "pos"}]',
+      [items[0], items[2]]
+    );
+    expect(entries.map((e) => [e.item.id, e.parsed.label])).toEqual([["p:c", "neg"]]);
+  });
+
+  it("reads loose objects and leaves unnamed items out", () => {
+    const reply = 'Fixed: {"id": "b", "label": "pos"} and {"label": "neg"}';
+    const entries = parseRepairResponse(reply, items);
+    expect(entries.map((e) => e.item.id)).toEqual(["p:b"]);
+  });
+
+  it("hands corrections to the schema check like batch entries", () => {
+    const schema = {
+      type: "object",
+      required: ["label"],
+      properties: { label: { enum: ["pos", "neg"] } }
+    };
+    const entries = parseRepairResponse(
+      '[{"id": "a", "label": "maybe"}, {"id": "b", "label": "pos"}]',
+      items
+    );
+    applySchema(entries, schema);
+    expect(entries.map((e) => e.ok)).toEqual([false, true]);
+    expect(entries[0].validationErrors?.[0].keyword).toBe("enum");
+  });
+});
@@ -0,0 +1,412 @@
+import {
+  validateJsonSchema,
+  type JsonSchema,
+  type SchemaValidationError
+} from "../shared/jsonSchema";
+import type { QueueItem } from "../shared/types";
+
+// Reading model replies: JSON (fenced, bare or loose) is matched to the batch's items, with
+// line-by-line fallbacks for replies that are not valid JSON.
+
+function unwrapJsonish(raw: string) {
+  if (!raw) return "";
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced?.[1]) return fenced[1].trim();
+  const trimmed = raw.trim();
+  if (/^json\s*[\[{]/i.test(trimmed)) {
+    return trimmed.replace(/^json\s*/i, "");
+  }
+  return trimmed;
+}
+
+function sliceBalanced(raw: string, open: string, close: string) {
+  let start = -1;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < raw.length; i++) {
+    const ch = raw[i];
+    if (escaped) {
+      escaped = false;
+      continue;
+    }
+    if (ch === "\\") {
+      escaped = true;
+      continue;
+    }
+    if (ch === '"') {
+      inString = !inString;
+      continue;
+    }
+    if (inString) continue;
+    if (ch === open) {
+      if (start === -1) start = i;
+      depth += 1;
+    } else if (ch === close && depth > 0) {
+      depth -= 1;
+      if (depth === 0) {
+        return raw.slice(start, i + 1);
+      }
+    }
+  }
+  return null;
+}
+
+function extractJSONObject(raw: string) {
+  const cleaned = unwrapJsonish(raw);
+  try {
+    const parsed = JSON.parse(cleaned);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed;
+    }
+  } catch {
+    /* ignore */
+  }
+  const balanced = sliceBalanced(cleaned, "{", "}");
+  if (balanced) {
+    try {
+      const parsed = JSON.parse(balanced);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      /* ignore */
+    }
+  }
+  return null;
+}
+
+function extractJSONArray(raw: string) {
+  const cleaned = unwrapJsonish(raw);
+  try {
+    const parsed = JSON.parse(cleaned);
+    if (Array.isArray(parsed)) return parsed;
+  } catch {
+    /* ignore */
+  }
+  const balanced = sliceBalanced(cleaned, "[", "]");
+  if (balanced) {
+    try {
+      const parsed = JSON.parse(balanced);
+      if (Array.isArray(parsed)) return parsed;
+    } catch {
+      /* ignore */
+    }
+  }
+  return null;
+}
+
+export function extractObjectList(raw: string) {
+  const cleaned = unwrapJsonish(raw);
+  const out: any[] = [];
+  let idx = 0;
+  while (idx < cleaned.length) {
+    const slice = cleaned.slice(idx);
+    const balanced = sliceBalanced(slice, "{", "}");
+    if (!balanced) break;
+    idx += slice.indexOf(balanced) + balanced.length;
+    try {
+      const parsed = JSON.parse(balanced);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        out.push(parsed);
+      }
+    } catch {
+      /* ignore */
+    }
+  }
+  return out.length ? out : null;
+}
+
+function extractRawObjectEntries(raw: string) {
+  const cleaned = unwrapJsonish(raw);
+  const out: string[] = [];
+  let idx = 0;
+  while (idx < cleaned.length) {
+    const slice = cleaned.slice(idx);
+    const balanced = sliceBalanced(slice, "{", "}");
+    if (!balanced) break;
+    idx += slice.indexOf(balanced) + balanced.length;
+    out.push(balanced.trim());
+  }
+  if (out.length) return out;
+  const lines = cleaned
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  return lines.length ? lines : null;
+}
+
+function parseLooseObject(rawObj: string, fallbackId: string) {
+  const trimmed = (rawObj || "").trim();
+  if (!trimmed) return null;
+  const idMatch = trimmed.match(/"id"\s*:\s*"([^"]*)"/i);
+  const id = (idMatch?.[1] || fallbackId || "").trim();
+  const textFieldMatch = trimmed.match(/"(output_text|output|text|completion)"\s*:/i);
+  if (!textFieldMatch || textFieldMatch.index == null) return null;
+  const start = textFieldMatch.index + textFieldMatch[0].length;
+  const end = trimmed.lastIndexOf("}");
+  const slice = end > start ? trimmed.slice(start, end) : trimmed.slice(start);
+  let value = slice.trim();
+  value = value.replace(/,\s*$/, "");
+  if (value.startsWith('"')) value = value.slice(1);
+  value = value.replace(/"\s*$/, "");
+  return { id, output_text: value, parseMode: "line_split_fallback" };
+}
+
+export function normalizeParsed(entry: any, fallbackId: string) {
+  const id = entry?.id ?? entry?.sampleId ?? entry?.sample_id ?? fallbackId;
+  const output_text =
+    entry?.output_text ?? entry?.output ?? entry?.text ?? entry?.completion ?? "";
+  return { ...entry, id, output_text };
+}
+
+function extractOutputText(entry: any): string | null {
+  const value = entry?.output_text ?? entry?.output ?? entry?.text ?? entry?.completion;
+  return typeof value === "string" ? value : null;
+}
+
+export type ParsedEntry = {
+  item: QueueItem;
+  ok: boolean;
+  parsed: any;
+  raw: string;
+  // The object as the model produced it (before normalization); validated against the schema.
+  source?: unknown;
+  validationErrors?: SchemaValidationError[];
+};
+
+export type BatchParseResult =
+  // outputCount is how many entries the reply contained, used to spot truncated replies.
+  | { mode: "per_item"; entries: ParsedEntry[]; outputCount: number }
+  | { mode: "batch_level"; ok: true; parsed: any; raw: string };
+
+function buildBatchLevelParsed(raw: string, items: QueueItem[], candidate: unknown) {
+  const cleaned = unwrapJsonish(raw);
+  let output_text = cleaned;
+  const outputCount = Array.isArray(candidate)
+    ? candidate.length
+    : candidate && typeof candidate === "object"
+      ? 1
+      : undefined;
+
+  if (Array.isArray(candidate) && candidate.length === 1) {
+    const only = candidate[0];
+    if (only && typeof only === "object" && !Array.isArray(only)) {
+      output_text = extractOutputText(only) ?? cleaned;
+    }
+  } else if (candidate && typeof candidate === "object" && !Array.isArray(candidate)) {
+    output_text = extractOutputText(candidate) ?? cleaned;
+  }
+
+  return {
+    output_text,
+    parseMode: "batch_level_output",
+    inputCount: items.length,
+    outputCount,
+    sampleIds: items.map((item) => item.sample.id || item.id)
+  };
+}
+
+function coerceSingleObject(raw: string) {
+  const obj = extractJSONObject(raw);
+  if (obj) return obj;
+  const arr = extractJSONArray(raw);
+  if (
+    Array.isArray(arr) &&
+    arr.length === 1 &&
+    arr[0] &&
+    typeof arr[0] === "object" &&
+    !Array.isArray(arr[0])
+  ) {
+    return arr[0];
+  }
+  return null;
+}
+
+function stripParseMode(entry: any) {
+  if (!entry || typeof entry !== "object") return entry;
+  const { parseMode: _parseMode, ...rest } = entry;
+  return rest;
+}
+
+export function parseSingleResponse(
+  raw: string,
+  item: QueueItem
+): { ok: boolean; parsed: any; source?: unknown } {
+  const obj = coerceSingleObject(raw);
+  if (!obj) {
+    const fallbackEntries = extractRawObjectEntries(raw);
+    if (fallbackEntries && fallbackEntries.length) {
+      const fallback =
+        parseLooseObject(fallbackEntries[0], item.sample.id || item.id) || {
+          id: item.sample.id || item.id,
+          output_text: fallbackEntries[0],
+          parseMode: "line_split_fallback"
+        };
+      return {
+        ok: true,
+        parsed: normalizeParsed(fallback, item.sample.id || item.id),
+        source: stripParseMode(fallback)
+      };
+    }
+    return { ok: false, parsed: { error: "parse_failed", raw } };
+  }
+  const normalized = normalizeParsed(obj, item.sample.id || item.id);
+  const ok = typeof obj.ok === "undefined" ? true : Boolean(obj.ok);
+  return { ok, parsed: normalized, source: obj as unknown };
+}
+
+export function parseBatchResponse(raw: string, items: QueueItem[], allowCountMismatch: boolean): BatchParseResult {
+  const batchLevel = (candidate: unknown): BatchParseResult => ({
+    mode: "batch_level",
+    ok: true,
+    raw,
+    parsed: buildBatchLevelParsed(raw, items, candidate)
+  });
+
+  const payload = extractJSONArray(raw);
+  if (Array.isArray(payload)) {
+    if (allowCountMismatch && payload.length !== items.length) {
+      return batchLevel(payload);
+    }
+    const byId = new Map<string, any>();
+    payload.forEach((entry) => {
+      const id = entry?.id ?? entry?.sampleId ?? entry?.sample_id;
+      if (id != null) byId.set(String(id), entry);
+    });
+    let missing = false;
+    const entries: ParsedEntry[] = items.map((item, idx) => {
+      const fallbackId = item.sample.id || item.id;
+      const picked = byId.get(String(fallbackId)) ?? payload[idx];
+      const entryRaw = picked ? JSON.stringify(picked) : raw;
+      if (!picked) {
+        missing = true;
+        return {
+          item,
+          ok: false,
+          parsed: { error: "missing_result_for_id", id: fallbackId, raw },
+          raw
+        };
+      }
+      const normalized = normalizeParsed(picked, fallbackId);
+      return { item, ok: true, parsed: normalized, raw: entryRaw, source: picked };
+    });
+    if (allowCountMismatch && missing) {
+      return batchLevel(payload);
+    }
+    return { mode: "per_item", entries, outputCount: payload.length };
+  }
+
+  const looseObjects = extractObjectList(raw);
+  if (looseObjects && looseObjects.length) {
+    if (allowCountMismatch && looseObjects.length !== items.length) {
+      return batchLevel(looseObjects);
+    }
+    const mapped = items.map((_item, idx) => looseObjects[idx] || looseObjects[0]);
+    const entries: ParsedEntry[] = mapped.map((entry, idx) => ({
+      item: items[idx],
+      ok: typeof entry.ok === "undefined" ? true : Boolean(entry.ok),
+      parsed: normalizeParsed(entry, items[idx].sample.id || items[idx].id),
+      raw: JSON.stringify(entry),
+      source: entry
+    }));
+    return { mode: "per_item", entries, outputCount: looseObjects.length };
+  }
+
+  const fallbackEntries = extractRawObjectEntries(raw);
+  if (fallbackEntries && fallbackEntries.length) {
+    if (allowCountMismatch && fallbackEntries.length !== items.length) {
+      return batchLevel(fallbackEntries);
+    }
+    const fallbackObjects = fallbackEntries.map((entry, idx) => ({
+      raw: entry,
+      obj: parseLooseObject(entry, items[idx]?.sample.id || items[idx]?.id || "")
+    }));
+    const byId = new Map<string, (typeof fallbackObjects)[number]>();
+    fallbackObjects.forEach((entry) => {
+      if (entry.obj?.id) byId.set(String(entry.obj.id), entry);
+    });
+
+    let missing = false;
+    const entries: ParsedEntry[] = items.map((item, idx) => {
+      const fallbackId = item.sample.id || item.id;
+      const picked = byId.get(String(fallbackId)) ?? fallbackObjects[idx];
+      if (!picked) {
+        missing = true;
+        return { item, ok: false, parsed: { error: "line_split_missing_entry", raw }, raw };
+      }
+      const parsedEntry =
+        picked.obj ??
+        ({
+          id: fallbackId,
+          output_text: picked.raw,
+          parseMode: "line_split_fallback"
+        } as any);
+      return {
+        item,
+        ok: true,
+        parsed: normalizeParsed(parsedEntry, fallbackId),
+        raw: picked.raw,
+        source: stripParseMode(parsedEntry)
+      };
+    });
+
+    if (allowCountMismatch && missing) {
+      return batchLevel(fallbackEntries);
+    }
+
+    return { mode: "per_item", entries, outputCount: fallbackEntries.length };
+  }
+
+  if (allowCountMismatch) {
+    return batchLevel(null);
+  }
+  return {
+    mode: "per_item",
+    entries: items.map((item) => ({ item, ok: false, parsed: { error: "batch_parse_failed", raw }, raw })),
+    outputCount: 0
+  };
+}
+
+// Entries of a schema re-ask reply for the items it names by id. A re-ask may leave items out or
+// reorder them, so nothing is matched by position: an item without an entry of its own is left
+// out and keeps its failed result.
+export function parseRepairResponse(raw: string, items: QueueItem[]): ParsedEntry[] {
+  const byId = new Map<string, any>();
+  for (const entry of extractJSONArray(raw) ?? extractObjectList(raw) ?? []) {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) continue;
+    const id = entry.id ?? entry.sampleId ?? entry.sample_id;
+    if (id != null && !byId.has(String(id))) byId.set(String(id), entry);
+  }
+  const entries: ParsedEntry[] = [];
+  for (const item of items) {
+    const sampleId = item.sample.id || item.id;
+    const picked = byId.get(String(sampleId));
+    if (!picked) continue;
+    entries.push({
+      item,
+      ok: typeof picked.ok === "undefined" ? true : Boolean(picked.ok),
+      parsed: normalizeParsed(picked, sampleId),
+      raw: JSON.stringify(picked),
+      source: picked
+    });
+  }
+  return entries;
+}
+
+function schemaSubject(entry: ParsedEntry) {
+  if (entry.source && typeof entry.source === "object") return entry.source;
+  return stripParseMode(entry.parsed);
+}
+
+// Entries that parsed but do not satisfy `schema` are marked failed, with the reasons.
+export function applySchema(entries: ParsedEntry[], schema: JsonSchema) {
+  for (const entry of entries) {
+    if (!entry.ok) continue;
+    const errors = validateJsonSchema(schema, schemaSubject(entry));
+    if (errors.length) {
+      entry.ok = false;
+      entry.validationErrors = errors;
+    }
+  }
+}
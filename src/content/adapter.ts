@@ -0,0 +1,192 @@
+import type { SiteIssueKind, WebSite } from "../shared/types";
+
+// Everything the content-script runtime needs to drive one chat frontend. Sites differ only in
+// selectors and editor quirks; prompting, reply capture, streaming and error detection are shared
+// (see runtime.ts).
+export interface SiteAdapter {
+  id: WebSite;
+  findInput(): HTMLElement | null;
+  // Replace the composer contents with `text`; false if the editor could not be filled.
+  setInput(input: HTMLElement, text: string): boolean;
+  // Submit the composer; resolves false when no send control was found.
+  send(input: HTMLElement): Promise<boolean>;
+  // True while the site is still producing a reply (usually a visible stop button).
+  isGenerating(): boolean;
+  // The newest assistant message; runtime.ts serializes it (see markdown.ts).
+  latestReply(): Element | null;
+  // Parts of a message that are not reply text, e.g. a code block's language label.
+  replySkipSelectors?: string[];
+  // Start a fresh conversation; resolves false when the site offers no new-chat control.
+  newChat(): Promise<boolean>;
+  // Banners / toasts whose text is checked for quota, captcha and error messages.
+  alertSelectors: string[];
+  // Site-specific blocked states the shared text checks would miss.
+  detectIssue?(): PageIssue | null;
+}
+
+export class PageIssue extends Error {
+  constructor(
+    public kind: SiteIssueKind,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+export function isVisible(el: Element | null): el is HTMLElement {
+  if (!el || !(el as HTMLElement).getBoundingClientRect) return false;
+  const rect = (el as HTMLElement).getBoundingClientRect();
+  if (rect.width === 0 || rect.height === 0) return false;
+  const style = window.getComputedStyle(el as HTMLElement);
+  return style.display !== "none" && style.visibility !== "hidden";
+}
+
+export function findFirst(selectors: string[], visibleOnly = false): HTMLElement | null {
+  for (const sel of selectors) {
+    const matches = Array.from(document.querySelectorAll(sel)) as HTMLElement[];
+    const hit = visibleOnly ? matches.find(isVisible) : matches[0];
+    if (hit) return hit;
+  }
+  return null;
+}
+
+export const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export async function waitFor(check: () => boolean, timeoutMs = 5000, intervalMs = 100) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (check()) return true;
+    await sleep(intervalMs);
+  }
+  return check();
+}
+
+function escapeHtml(text: string) {
+  const div = document.createElement("div");
+  div.textContent = text;
+  return div.innerHTML;
+}
+
+function dispatchInput(target: HTMLElement, text: string, inputType: string) {
+  target.dispatchEvent(
+    new InputEvent("input", { bubbles: true, cancelable: true, data: text, inputType })
+  );
+}
+
+// Textareas and plain contenteditable elements.
+export function setPlainText(el: HTMLElement, text: string) {
+  if ("value" in el) {
+    (el as HTMLTextAreaElement).value = text;
+    el.focus();
+    dispatchInput(el, text, "insertText");
+  } else {
+    el.textContent = text;
+    dispatchInput(el, text, "insertText");
+    el.focus();
+  }
+  el.dispatchEvent(new Event("change", { bubbles: true }));
+  return true;
+}
+
+// Quill editors accept their content as paragraphs set directly.
+export function setQuillText(editor: HTMLElement, text: string) {
+  editor.innerHTML = `<p>${escapeHtml(text)}</p>`;
+  editor.focus();
+  dispatchInput(editor, text, "insertText");
+  editor.dispatchEvent(new Event("change", { bubbles: true }));
+  return true;
+}
+
+function placeCaretAtEnd(target: HTMLElement) {
+  const range = document.createRange();
+  range.selectNodeContents(target);
+  range.collapse(false);
+  const sel = window.getSelection();
+  sel?.removeAllRanges();
+  sel?.addRange(range);
+}
+
+// Editors that keep their own document model (ProseMirror, Lexical, ...) ignore direct DOM edits,
+// so the text goes in through the editing commands, then a synthetic paste, then raw paragraphs.
+export function setRichText(editor: HTMLElement, text: string) {
+  editor.focus();
+  try {
+    document.execCommand("selectAll");
+    document.execCommand("delete");
+  } catch {
+    /* ignore */
+  }
+  editor.focus();
+  let inserted = false;
+  try {
+    inserted = document.execCommand("insertText", false, text);
+  } catch {
+    inserted = false;
+  }
+  if (!inserted) {
+    try {
+      const data = new DataTransfer();
+      data.setData("text/plain", text);
+      inserted = editor.dispatchEvent(
+        new ClipboardEvent("paste", { clipboardData: data, bubbles: true, cancelable: true })
+      );
+    } catch {
+      inserted = false;
+    }
+  }
+  if (!inserted) {
+    editor.innerHTML = text
+      .split(/\n/)
+      .map((line) => (line ? `<p>${escapeHtml(line)}</p>` : "<p><br></p>"))
+      .join("");
+  }
+  placeCaretAtEnd(editor);
+  dispatchInput(editor, text, "insertFromPaste");
+  editor.dispatchEvent(new Event("change", { bubbles: true }));
+  return true;
+}
+
+export function clickFirst(selectors: string[], visibleOnly = false): string | null {
+  for (const sel of selectors) {
+    const btn = document.querySelector(sel) as HTMLButtonElement | null;
+    if (!btn || (visibleOnly && !isVisible(btn))) continue;
+    // Some buttons start disabled until the input event is processed.
+    btn.disabled = false;
+    btn.removeAttribute?.("aria-disabled");
+    btn.dispatchEvent(new MouseEvent("mousedown", { bubbles: true }));
+    btn.click();
+    btn.dispatchEvent(new MouseEvent("mouseup", { bubbles: true }));
+    return sel;
+  }
+  return null;
+}
+
+export async function clickWithRetry(
+  selectors: string[],
+  visibleOnly = false,
+  attempts = 5,
+  delayMs = 80
+): Promise<string | null> {
+  for (let i = 0; i < attempts; i++) {
+    const hit = clickFirst(selectors, visibleOnly);
+    if (hit) return hit;
+    await sleep(delayMs);
+  }
+  return null;
+}
+
+export function pressEnter(el: HTMLElement, modifiers: { ctrlKey?: boolean } = {}) {
+  for (const type of ["keydown", "keypress", "keyup"] as const) {
+    el.dispatchEvent(new KeyboardEvent(type, { key: "Enter", code: "Enter", bubbles: true, ...modifiers }));
+  }
+}
+
+// Last node with any text, taken from the first selector that has one.
+export function findLastWithText(selectors: string[]): Element | null {
+  for (const sel of selectors) {
+    const nodes = Array.from(document.querySelectorAll(sel));
+    const hit = nodes.reverse().find((n) => (n.textContent || "").trim());
+    if (hit) return hit;
+  }
+  return null;
+}
@@ -0,0 +1,19 @@
+// Single content script for every supported chat site; the adapter is picked from the page URL.
+import type { WebSite } from "../shared/types";
+import { siteForUrl } from "../shared/sites";
+import type { SiteAdapter } from "./adapter";
+import { startContentScript } from "./runtime";
+import { chatgptAdapter } from "./sites/chatgpt";
+import { geminiAdapter } from "./sites/gemini";
+
+const ADAPTERS: Record<WebSite, SiteAdapter> = {
+  gemini: geminiAdapter,
+  chatgpt: chatgptAdapter
+};
+
+const site = siteForUrl(location.href);
+if (site) {
+  startContentScript(ADAPTERS[site]);
+} else {
+  console.warn("[llm-labeler] no site adapter for", location.href);
+}
@@ -0,0 +1,152 @@
+// Serializes an assistant message to Markdown. textContent flattens code blocks, drops list and
+// table structure and glues neighbouring blocks together; this keeps them the way the site
+// rendered them.
+
+// Never part of the reply text: icons, copy buttons and the like.
+const SKIP_TAGS = new Set(["BUTTON", "SVG", "STYLE", "SCRIPT", "TEMPLATE", "NOSCRIPT", "MAT-ICON"]);
+
+const BLOCK_TAGS = new Set([
+  "P",
+  "DIV",
+  "SECTION",
+  "ARTICLE",
+  "HEADER",
+  "FOOTER",
+  "BLOCKQUOTE",
+  "FIGURE",
+  "DL",
+  "DT",
+  "DD"
+]);
+
+export interface CapturedReply {
+  // Contents of the message's code blocks when it has any, otherwise the whole message as Markdown.
+  text: string;
+  html: string;
+}
+
+function isSkipped(el: Element, skipSelectors: string[]) {
+  if (SKIP_TAGS.has(el.tagName.toUpperCase())) return true;
+  return skipSelectors.some((sel) => {
+    try {
+      return el.matches(sel);
+    } catch {
+      return false;
+    }
+  });
+}
+
+function codeLanguage(pre: Element) {
+  for (const el of [pre.querySelector("code"), pre]) {
+    const match = el?.className?.toString().match(/(?:language|lang)-([\w+#.-]+)/);
+    if (match) return match[1];
+  }
+  return "";
+}
+
+// The code element holds just the code; headers with a language label or a copy button sit
+// beside it inside some sites' <pre>.
+function codeText(pre: Element) {
+  const code = pre.querySelector("code") ?? pre;
+  return (code.textContent || "").replace(/\n+$/, "");
+}
+
+function block(text: string) {
+  const trimmed = text.trim();
+  return trimmed ? `\n\n${trimmed}\n\n` : "";
+}
+
+function serializeList(list: Element, skipSelectors: string[]) {
+  const ordered = list.tagName.toUpperCase() === "OL";
+  const start = Number(list.getAttribute("start")) || 1;
+  const items = Array.from(list.children).filter((el) => el.tagName.toUpperCase() === "LI");
+  const lines = items.map((li, idx) => {
+    const marker = ordered ? `${start + idx}. ` : "- ";
+    const body = serializeChildren(li, skipSelectors).trim().replace(/\n{3,}/g, "\n\n");
+    // Continuation lines (nested lists, later paragraphs) are indented under the marker.
+    return marker + body.split("\n").join(`\n${" ".repeat(marker.length)}`);
+  });
+  return block(lines.join("\n"));
+}
+
+function cellText(cell: Element, skipSelectors: string[]) {
+  return serializeChildren(cell, skipSelectors).trim().replace(/\s*\n+\s*/g, " ").replace(/\|/g, "\\|");
+}
+
+function serializeTable(table: Element, skipSelectors: string[]) {
+  const rows = Array.from(table.querySelectorAll("tr")).filter((tr) => tr.closest("table") === table);
+  const cells = rows.map((tr) =>
+    Array.from(tr.children)
+      .filter((c) => /^T[HD]$/i.test(c.tagName))
+      .map((c) => cellText(c, skipSelectors))
+  );
+  if (!cells.length) return "";
+  const width = Math.max(...cells.map((r) => r.length));
+  const line = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => row[i] ?? "").join(" | ")} |`;
+  const [head, ...body] = cells;
+  const lines = [line(head), line(Array(width).fill("---")), ...body.map(line)];
+  return block(lines.join("\n"));
+}
+
+function serializeNode(node: Node, skipSelectors: string[]): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return (node.textContent || "").replace(/\s+/g, " ");
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return "";
+  const el = node as Element;
+  if (isSkipped(el, skipSelectors)) return "";
+  const tag = el.tagName.toUpperCase();
+  switch (tag) {
+    case "PRE":
+      return `\n\n\`\`\`${codeLanguage(el)}\n${codeText(el)}\n\`\`\`\n\n`;
+    case "CODE":
+      return `\`${el.textContent || ""}\``;
+    case "BR":
+      return "\n";
+    case "HR":
+      return "\n\n---\n\n";
+    case "UL":
+    case "OL":
+      return serializeList(el, skipSelectors);
+    case "TABLE":
+      return serializeTable(el, skipSelectors);
+    case "H1":
+    case "H2":
+    case "H3":
+    case "H4":
+    case "H5":
+    case "H6":
+      return block(`${"#".repeat(Number(tag[1]))} ${serializeChildren(el, skipSelectors).trim()}`);
+    default: {
+      const inner = serializeChildren(el, skipSelectors);
+      return BLOCK_TAGS.has(tag) ? block(inner) : inner;
+    }
+  }
+}
+
+function serializeChildren(el: Element, skipSelectors: string[]) {
+  return Array.from(el.childNodes)
+    .map((child) => serializeNode(child, skipSelectors))
+    .join("");
+}
+
+export function toMarkdown(el: Element, skipSelectors: string[] = []) {
+  return serializeChildren(el, skipSelectors)
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+$/, ""))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Replies are expected to be JSON, which models usually put in a code block; when there is one,
+// its contents are the reply and the surrounding prose is dropped.
+export function captureReply(el: Element, skipSelectors: string[] = []): CapturedReply {
+  const blocks = Array.from(el.querySelectorAll("pre"))
+    .filter((pre) => !isSkipped(pre, skipSelectors))
+    .map(codeText)
+    .filter((text) => text.trim());
+  const text = blocks.length ? blocks.join("\n") : toMarkdown(el, skipSelectors);
+  return { text, html: el.innerHTML };
+}
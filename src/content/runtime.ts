@@ -0,0 +1,266 @@
+import { PageIssue, type SiteAdapter } from "./adapter";
+import { captureReply, type CapturedReply } from "./markdown";
+
+const STATE_KEY = "__LLM_LABELER_CONTENT_STATE__";
+
+const STREAM_PORT = "llm-labeler-reply-stream";
+const STREAM_INTERVAL_MS = 300;
+
+const CAPTCHA_SELECTORS = [
+  'iframe[src*="recaptcha"]',
+  'iframe[src*="hcaptcha"]',
+  'iframe[src*="challenges.cloudflare.com"]',
+  "#challenge-form",
+  "#cf-challenge-running"
+];
+
+const ISSUE_PATTERNS: { kind: PageIssue["kind"]; pattern: RegExp }[] = [
+  { kind: "captcha", pattern: /verify (?:that )?(?:you are|you're) (?:a )?human|unusual traffic/i },
+  {
+    kind: "quota",
+    pattern: /reached (?:your|the) (?:\w+ )?limit|usage (?:cap|limit)|too many requests|rate limit|quota|limit resets/i
+  },
+  {
+    kind: "site_error",
+    pattern: /something went wrong|an error occurred|network error|error in (?:message|body) stream|unable to (?:load|generate)/i
+  }
+];
+
+// Notices the sites post in place of the assistant's answer. These are matched from the start of
+// the reply and with the sites' own wording, since an answer may well mention a quota or an error.
+const REPLY_ISSUE_PATTERNS: { kind: PageIssue["kind"]; pattern: RegExp }[] = [
+  {
+    kind: "quota",
+    pattern: /^(?:you(?:'|’)ve reached (?:our|your|the current) (?:[\w.-]+ )*?(?:limit|usage cap)|too many requests in 1 hour)/i
+  },
+  {
+    kind: "site_error",
+    pattern: /^(?:something went wrong(?: while generating the response)?[.!]?$|there was an error generating a response|error in (?:message|body) stream)/i
+  }
+];
+
+// Long or JSON-looking replies are model output, even if they happen to mention an error.
+const MAX_BANNER_REPLY_LENGTH = 600;
+
+function classifyIssueText(text: string, patterns = ISSUE_PATTERNS): PageIssue | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  for (const { kind, pattern } of patterns) {
+    if (pattern.test(trimmed)) return new PageIssue(kind, trimmed.slice(0, 200));
+  }
+  return null;
+}
+
+function readAlerts(adapter: SiteAdapter): string[] {
+  if (!adapter.alertSelectors.length) return [];
+  return Array.from(document.querySelectorAll(adapter.alertSelectors.join(",")))
+    .map((n) => (n.textContent || "").trim())
+    .filter(Boolean);
+}
+
+// Look for a quota, captcha or error state. Alerts already on screen before the prompt was sent
+// (listed in `seenAlerts`) are ignored so a stale banner does not block every later batch.
+function detectPageIssue(
+  adapter: SiteAdapter,
+  seenAlerts: string[] = [],
+  reply?: string | null
+): PageIssue | null {
+  if (document.querySelector(CAPTCHA_SELECTORS.join(","))) {
+    return new PageIssue("captcha", "captcha_challenge_shown");
+  }
+  const custom = adapter.detectIssue?.();
+  if (custom) return custom;
+  for (const alert of readAlerts(adapter)) {
+    if (seenAlerts.includes(alert)) continue;
+    const issue = classifyIssueText(alert);
+    if (issue) return issue;
+  }
+  if (reply && reply.length <= MAX_BANNER_REPLY_LENGTH && !/[{[]/.test(reply)) {
+    return classifyIssueText(reply, REPLY_ISSUE_PATTERNS);
+  }
+  return null;
+}
+
+// Posts the growing reply text to the background so finished items can be committed before the
+// whole batch completes. Text equal to the reply that was on screen before sending is skipped.
+function createReplyStreamer(streamId: string | undefined, baseline: string) {
+  let port: chrome.runtime.Port | null = null;
+  if (streamId) {
+    try {
+      port = chrome.runtime.connect({ name: STREAM_PORT });
+      port.onDisconnect.addListener(() => {
+        port = null;
+      });
+    } catch {
+      port = null;
+    }
+  }
+  let pending = "";
+  let sent = "";
+  let timer: number | undefined;
+  const flush = () => {
+    timer = undefined;
+    if (!port || !pending || pending === sent) return;
+    try {
+      port.postMessage({ type: "reply_chunk", streamId, text: pending });
+      sent = pending;
+    } catch {
+      port = null;
+    }
+  };
+  return {
+    push(text: string) {
+      if (!port || !text || text === baseline) return;
+      pending = text;
+      if (timer == null) timer = window.setTimeout(flush, STREAM_INTERVAL_MS);
+    },
+    close() {
+      if (timer != null) window.clearTimeout(timer);
+      flush();
+      try {
+        port?.disconnect();
+      } catch {
+        /* ignore */
+      }
+      port = null;
+    }
+  };
+}
+
+function readReply(adapter: SiteAdapter): CapturedReply | null {
+  const el = adapter.latestReply();
+  if (!el) return null;
+  const reply = captureReply(el, adapter.replySkipSelectors);
+  return reply.text ? reply : null;
+}
+
+// Resolves with the latest reply once the site stops generating and the text has not changed for
+// `settleMs`; on timeout, with whatever reply is on screen.
+function waitForReply(
+  adapter: SiteAdapter,
+  timeoutMs = 60000,
+  settleMs = 900,
+  onProgress?: (text: string) => void
+): Promise<CapturedReply> {
+  let last = readReply(adapter);
+  return new Promise((resolve, reject) => {
+    let settleTimer: number | undefined;
+    const finishIfSettled = () => {
+      const latest = readReply(adapter) || last;
+      if (latest && !adapter.isGenerating() && latest.text === last?.text) {
+        cleanup();
+        resolve(latest);
+      }
+    };
+    const scheduleSettle = () => {
+      if (settleTimer) window.clearTimeout(settleTimer);
+      settleTimer = window.setTimeout(finishIfSettled, settleMs);
+    };
+    const observer = new MutationObserver(() => {
+      const current = readReply(adapter);
+      if (current) {
+        last = current;
+        onProgress?.(current.text);
+        scheduleSettle();
+      }
+    });
+    observer.observe(document.body, { childList: true, subtree: true, characterData: true });
+    scheduleSettle();
+
+    const timeoutId = window.setTimeout(() => {
+      cleanup();
+      const latest = readReply(adapter) || last;
+      if (latest) {
+        resolve(latest);
+      } else {
+        reject(new Error("timeout"));
+      }
+    }, timeoutMs);
+
+    const cleanup = () => {
+      observer.disconnect();
+      if (settleTimer) window.clearTimeout(settleTimer);
+      window.clearTimeout(timeoutId);
+    };
+  });
+}
+
+async function handlePrompt(adapter: SiteAdapter, prompt: string, streamId?: string) {
+  const seenAlerts = readAlerts(adapter);
+  // Only a challenge blocks sending up front; banners are judged by what appears after sending.
+  const blocked = detectPageIssue(adapter, seenAlerts);
+  if (blocked) throw blocked;
+  const input = adapter.findInput();
+  if (!input) throw new Error("input_not_found");
+  const baseline = readReply(adapter)?.text || "";
+  console.debug(`[llm-labeler][${adapter.id}] setting prompt`);
+  if (!adapter.setInput(input, prompt)) throw new Error("set_input_failed");
+  // allow UI to enable the send button
+  await new Promise((r) => setTimeout(r, 80));
+  const sent = await adapter.send(input);
+  console.debug(`[llm-labeler][${adapter.id}] send =>`, sent);
+  const streamer = createReplyStreamer(streamId, baseline);
+  let reply: CapturedReply;
+  try {
+    reply = await waitForReply(adapter, undefined, undefined, streamer.push);
+  } catch (err) {
+    // A reply that never came is usually explained by a banner or challenge on the page.
+    throw detectPageIssue(adapter, seenAlerts) ?? err;
+  } finally {
+    streamer.close();
+  }
+  const issue = detectPageIssue(adapter, seenAlerts, reply.text);
+  if (issue) throw issue;
+  console.debug(`[llm-labeler][${adapter.id}] reply captured`, reply.text.slice(0, 120));
+  return reply;
+}
+
+// Install the message listener for `adapter`. Re-injecting the script replaces the old listener.
+export function startContentScript(adapter: SiteAdapter) {
+  const g = globalThis as any;
+  const existing = g[STATE_KEY] as { listener?: any } | undefined;
+  if (existing?.listener) {
+    try {
+      chrome.runtime.onMessage.removeListener(existing.listener);
+    } catch {
+      /* ignore */
+    }
+  }
+  const state: { listener?: any } = {};
+  g[STATE_KEY] = state;
+
+  const listener = (msg: any, _sender: any, sendResponse: (res: any) => void) => {
+    (async () => {
+      if (msg?.type === "ping") {
+        sendResponse({ ok: true, target: adapter.id });
+        return;
+      }
+      if (msg?.type === "new_chat") {
+        try {
+          sendResponse({ ok: await adapter.newChat() });
+        } catch (error: any) {
+          sendResponse({ ok: false, error: String(error) });
+        }
+        return;
+      }
+      if (msg?.type === "run_prompt") {
+        try {
+          const reply = await handlePrompt(adapter, msg.prompt, msg.streamId);
+          sendResponse({ ok: true, reply: reply.text, rawHtml: reply.html, sampleId: msg.sampleId });
+        } catch (error: any) {
+          if (error instanceof PageIssue) {
+            console.warn(`[llm-labeler][${adapter.id}] page issue`, error.kind, error.message);
+            sendResponse({ ok: false, error: `${error.kind}: ${error.message}`, errorKind: error.kind });
+            return;
+          }
+          sendResponse({ ok: false, error: String(error) });
+        }
+      }
+    })();
+    return true;
+  };
+
+  state.listener = listener;
+  chrome.runtime.onMessage.addListener(listener);
+  console.debug(`[llm-labeler][${adapter.id}] content script loaded`);
+}
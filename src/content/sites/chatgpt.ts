@@ -0,0 +1,89 @@
+import {
+  clickFirst,
+  clickWithRetry,
+  findFirst,
+  findLastWithText,
+  pressEnter,
+  setPlainText,
+  setRichText,
+  waitFor,
+  type SiteAdapter
+} from "../adapter";
+
+const INPUT_SELECTORS = [
+  '#prompt-textarea[contenteditable="true"]',
+  '[data-testid="prompt-textarea"][contenteditable="true"]',
+  '.ProseMirror[contenteditable="true"]',
+  'div[contenteditable="true"]',
+  'textarea:not([style*="display: none"])',
+  "textarea"
+];
+
+const STOP_SELECTORS = [
+  'button[data-testid="stop-button"]',
+  'button[aria-label*="Stop generating"]',
+  'button[aria-label*="Stop"]'
+];
+
+const REPLY_SELECTORS = [
+  '[data-message-author-role="assistant"]',
+  "article",
+  '[data-testid="assistant-message"]'
+];
+
+const SEND_SELECTORS = [
+  'button[data-testid="send-button"]',
+  'button[aria-label*="Send"]',
+  'button[aria-label*="send"]',
+  'button[aria-label*="Send message"]',
+  'button[type="submit"]'
+];
+
+const NEW_CHAT_SELECTORS = [
+  'a[data-testid="create-new-chat-button"]',
+  'button[data-testid="create-new-chat-button"]',
+  'button[aria-label*="New chat"]',
+  'a[aria-label*="New chat"]'
+];
+
+const ALERT_SELECTORS = [
+  '[role="alert"]',
+  ".text-token-text-error",
+  '[data-testid*="error"]',
+  ".toast-root"
+];
+
+export const chatgptAdapter: SiteAdapter = {
+  id: "chatgpt",
+  alertSelectors: ALERT_SELECTORS,
+
+  findInput() {
+    return findFirst(INPUT_SELECTORS, true);
+  },
+
+  setInput(el, text) {
+    const editor = el.classList.contains("ProseMirror")
+      ? el
+      : (el.closest(".ProseMirror") as HTMLElement | null);
+    return editor ? setRichText(editor, text ?? "") : setPlainText(el, text ?? "");
+  },
+
+  async send(input) {
+    const clicked = await clickWithRetry(SEND_SELECTORS, true);
+    if (!clicked) pressEnter(input);
+    return Boolean(clicked);
+  },
+
+  isGenerating() {
+    return Boolean(document.querySelector(STOP_SELECTORS.join(",")));
+  },
+
+  latestReply() {
+    return findLastWithText(REPLY_SELECTORS);
+  },
+
+  async newChat() {
+    if (!clickFirst(NEW_CHAT_SELECTORS, true)) return false;
+    return waitFor(() => !findLastWithText(REPLY_SELECTORS) && Boolean(findFirst(INPUT_SELECTORS, true)));
+  }
+};
@@ -0,0 +1,122 @@
+import {
+  clickFirst,
+  clickWithRetry,
+  findFirst,
+  findLastWithText,
+  pressEnter,
+  setPlainText,
+  setQuillText,
+  waitFor,
+  type SiteAdapter
+} from "../adapter";
+
+const INPUT_SELECTORS = [
+  // New Gemini rich editor
+  '.ql-editor.textarea[contenteditable="true"]',
+  '.ql-editor[contenteditable="true"]',
+  '[data-node-type="input-area"] .ql-editor',
+  '[data-node-type="input-area"] [contenteditable="true"]',
+  "[data-textinput]",
+  '[role="textbox"][contenteditable="true"]',
+  'div[role="textbox"]',
+  'div[contenteditable="true"]',
+  "textarea",
+  "textarea[aria-label]"
+];
+
+const REPLY_SELECTORS = [
+  "[data-md]",
+  "[data-message-author-role='assistant']",
+  "[data-message-author-role='model']",
+  "article",
+  "[aria-live='polite']",
+  '[role="article"]'
+];
+
+// Gemini puts the language label ("JSON") and copy button above each code block.
+const REPLY_SKIP_SELECTORS = [".code-block-decoration", ".response-footer", "sources-list"];
+
+const STOP_SELECTORS = [
+  'button[aria-label*="Stop"]',
+  'button[aria-label*="停止"]',
+  'button[data-testid*="stop"]',
+  'button[data-id*="stop"]'
+];
+
+const SEND_SELECTORS = [
+  'button[aria-label*="Send"]',
+  'button[aria-label*="send"]',
+  'button[aria-label*="发送"]',
+  'button[aria-label*="Send message"]',
+  'button[type="submit"]',
+  'button[data-testid*="send"]',
+  'button[data-id*="send"]',
+  ".send-button",
+  "button.send-button",
+  ".send-button-container .send-button",
+  "button.submit",
+  ".send-button-container button",
+  ".mat-mdc-icon-button.send-button",
+  'button[mat-icon-button][aria-label*="send"]',
+  'button[mat-icon-button][aria-label*="发送"]'
+];
+
+const NEW_CHAT_SELECTORS = [
+  '[data-test-id="new-chat-button"] button',
+  'button[aria-label*="New chat"]',
+  'a[aria-label*="New chat"]',
+  'a[href="/app"]'
+];
+
+const ALERT_SELECTORS = [
+  '[role="alert"]',
+  "snack-bar-container",
+  "mat-snack-bar-container",
+  ".mat-mdc-snack-bar-label",
+  "error-notification"
+];
+
+export const geminiAdapter: SiteAdapter = {
+  id: "gemini",
+  alertSelectors: ALERT_SELECTORS,
+  replySkipSelectors: REPLY_SKIP_SELECTORS,
+
+  findInput() {
+    return findFirst(INPUT_SELECTORS);
+  },
+
+  setInput(el, text) {
+    const editor = el.classList.contains("ql-editor")
+      ? el
+      : (el.closest(".ql-editor") as HTMLElement | null);
+    const ok = editor ? setQuillText(editor, text) : setPlainText(el, text);
+    el.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter", bubbles: true }));
+    return ok;
+  },
+
+  async send(input) {
+    const clicked = await clickWithRetry(SEND_SELECTORS);
+    if (clicked) {
+      console.debug("[llm-labeler][gemini] clicked send via selector", clicked);
+    } else {
+      console.warn("[llm-labeler][gemini] no send button matched after retry");
+    }
+    // Always fire an Enter sequence as a backup (Gemini sometimes ignores click)
+    pressEnter(input);
+    if (!clicked) pressEnter(input, { ctrlKey: true });
+    return Boolean(clicked);
+  },
+
+  isGenerating() {
+    return Boolean(document.querySelector(STOP_SELECTORS.join(",")));
+  },
+
+  latestReply() {
+    return findLastWithText(REPLY_SELECTORS);
+  },
+
+  async newChat() {
+    if (!clickFirst(NEW_CHAT_SELECTORS)) return false;
+    return waitFor(() => !findLastWithText(REPLY_SELECTORS) && Boolean(findFirst(INPUT_SELECTORS)));
+  }
+};
@@ -1,16 +1,37 @@
-import Dexie, { Table } from "dexie";
+import Dexie, { Table, type Transaction } from "dexie";
 import type {
   QueueItem,
   ResultRecord,
   PromptDoc,
-  SettingsDoc
+  SettingsDoc,
+  ProjectDoc,
+  PromptVersion,
+  ConsensusRecord,
+  DispatchRecord,
+  ReviewFlag,
+  ReviewRecord,
+  SourceRecord
 } from "../shared/types";
+import { normalizeLabel, readField, summarizeLabels } from "../shared/consensus";
+import { joinChunkTexts } from "../shared/chunking";
+import { DEFAULT_RETRY_ERROR_CLASSES } from "../shared/retry";
+import { DEFAULT_SITE } from "../shared/sites";
+import type { SourceRecordMap } from "../shared/template";
+
+// Project that pre-project data (single "active" prompt/settings, global queue) migrates into.
+export const DEFAULT_PROJECT_ID = "default";
 
 export class LabelerDB extends Dexie {
   queue!: Table<QueueItem, string>;
   results!: Table<ResultRecord, string>;
   settings!: Table<SettingsDoc, string>;
   prompts!: Table<PromptDoc, string>;
+  projects!: Table<ProjectDoc, string>;
+  consensus!: Table<ConsensusRecord, string>;
+  reviews!: Table<ReviewRecord, string>;
+  dispatches!: Table<DispatchRecord, string>;
+  records!: Table<SourceRecord, string>;
+  promptVersions!: Table<PromptVersion, string>;
   // Legacy table kept for migration; will be ignored otherwise.
   scripts!: Table<any, string>;
 
@@ -63,17 +84,405 @@ export class LabelerDB extends Dexie {
           item.seq = seq++;
         });
       });
+
+    this.version(4)
+      .stores({
+        queue:
+          "id,status,target,createdAt,updatedAt,seq,[status+seq],projectId,[projectId+status],[projectId+status+seq],[projectId+seq]",
+        results: "id,sampleId,target,createdAt,projectId,[projectId+createdAt]",
+        scripts: "id",
+        settings: "id",
+        prompts: "id",
+        projects: "id,name,createdAt"
+      })
+      .upgrade(async (tx) => {
+        const now = Date.now();
+        await tx.table("projects").put({
+          id: DEFAULT_PROJECT_ID,
+          name: "Default",
+          createdAt: now,
+          updatedAt: now
+        } satisfies ProjectDoc);
+        for (const name of ["prompts", "settings"]) {
+          const table = tx.table(name);
+          const legacy = await table.get("active");
+          if (legacy) {
+            await table.put({ ...legacy, id: DEFAULT_PROJECT_ID });
+            await table.delete("active");
+          }
+        }
+        await tx.table("queue").toCollection().modify((item: any) => {
+          item.projectId = DEFAULT_PROJECT_ID;
+        });
+        await tx.table("results").toCollection().modify((row: any) => {
+          row.projectId = DEFAULT_PROJECT_ID;
+        });
+        await rekeyLegacyRows(tx, ["queue", "results"]);
+      });
+
+    this.version(5).stores({
+      queue:
+        "id,status,target,createdAt,updatedAt,seq,[status+seq],projectId,[projectId+status],[projectId+status+seq],[projectId+seq]",
+      results:
+        "id,sampleId,target,createdAt,projectId,[projectId+createdAt],[projectId+sampleId]",
+      scripts: "id",
+      settings: "id",
+      prompts: "id",
+      projects: "id,name,createdAt",
+      consensus: "id,projectId,updatedAt"
+    });
+
+    this.version(6).stores({
+      queue:
+        "id,status,target,createdAt,updatedAt,seq,[status+seq],projectId,[projectId+status],[projectId+status+seq],[projectId+seq]",
+      results:
+        "id,sampleId,target,createdAt,projectId,[projectId+createdAt],[projectId+sampleId]",
+      scripts: "id",
+      settings: "id",
+      prompts: "id",
+      projects: "id,name,createdAt",
+      consensus: "id,projectId,updatedAt",
+      reviews: "id,projectId,decision,reviewedAt"
+    });
+
+    this.version(7).stores({
+      queue:
+        "id,status,target,createdAt,updatedAt,seq,[status+seq],projectId,[projectId+status],[projectId+status+seq],[projectId+seq]",
+      results:
+        "id,sampleId,target,createdAt,projectId,[projectId+createdAt],[projectId+sampleId]",
+      scripts: "id",
+      settings: "id",
+      prompts: "id",
+      projects: "id,name,createdAt",
+      consensus: "id,projectId,updatedAt",
+      reviews: "id,projectId,decision,reviewedAt",
+      dispatches: "id,projectId,[projectId+completedAt]"
+    });
+
+    this.version(8).stores({
+      queue:
+        "id,status,target,createdAt,updatedAt,seq,[status+seq],projectId,[projectId+status],[projectId+status+seq],[projectId+seq]",
+      results:
+        "id,sampleId,target,createdAt,projectId,[projectId+createdAt],[projectId+sampleId]",
+      scripts: "id",
+      settings: "id",
+      prompts: "id",
+      projects: "id,name,createdAt",
+      consensus: "id,projectId,updatedAt",
+      reviews: "id,projectId,decision,reviewedAt",
+      dispatches: "id,projectId,[projectId+completedAt]",
+      records: "id,projectId"
+    });
+
+    this.version(9).stores({
+      queue:
+        "id,status,target,createdAt,updatedAt,seq,[status+seq],projectId,[projectId+status],[projectId+status+seq],[projectId+seq]",
+      results:
+        "id,sampleId,target,createdAt,projectId,[projectId+createdAt],[projectId+sampleId]",
+      scripts: "id",
+      settings: "id",
+      prompts: "id",
+      projects: "id,name,createdAt",
+      consensus: "id,projectId,updatedAt",
+      reviews: "id,projectId,decision,reviewedAt",
+      dispatches: "id,projectId,[projectId+completedAt]",
+      records: "id,projectId,[projectId+contentHash]"
+    });
+
+    this.version(10).stores({
+      queue:
+        "id,status,target,createdAt,updatedAt,seq,[status+seq],projectId,[projectId+status],[projectId+status+seq],[projectId+seq]",
+      results:
+        "id,sampleId,target,createdAt,projectId,[projectId+createdAt],[projectId+sampleId],dispatchId",
+      scripts: "id",
+      settings: "id",
+      prompts: "id",
+      projects: "id,name,createdAt",
+      consensus: "id,projectId,updatedAt",
+      reviews: "id,projectId,decision,reviewedAt",
+      dispatches: "id,projectId,[projectId+completedAt]",
+      records: "id,projectId,[projectId+contentHash]"
+    });
+
+    this.version(11).stores({
+      queue:
+        "id,status,target,createdAt,updatedAt,seq,[status+seq],projectId,[projectId+status],[projectId+status+seq],[projectId+seq]",
+      results:
+        "id,sampleId,target,createdAt,projectId,[projectId+createdAt],[projectId+sampleId],dispatchId",
+      scripts: "id",
+      settings: "id",
+      prompts: "id",
+      projects: "id,name,createdAt",
+      consensus: "id,projectId,updatedAt",
+      reviews: "id,projectId,decision,reviewedAt",
+      dispatches: "id,projectId,[projectId+completedAt]",
+      records: "id,projectId,[projectId+contentHash]",
+      promptVersions: "id,projectId,[projectId+number]"
+    });
+  }
+}
+
+// Rows from before projects existed are keyed by the bare sample id, while every lookup builds
+// makeQueueId(projectId, sampleId); move them to that key. Where a row already holds the new key,
+// that row is kept and the legacy one dropped.
+async function rekeyLegacyRows(tx: Transaction, tableNames: string[]) {
+  const prefix = makeQueueId(DEFAULT_PROJECT_ID, "");
+  for (const name of tableNames) {
+    const table = tx.table(name);
+    const legacy = await table
+      .filter(
+        (row: any) => row.projectId === DEFAULT_PROJECT_ID && !String(row.id).startsWith(prefix)
+      )
+      .toArray();
+    if (!legacy.length) continue;
+    const moved = legacy.map((row: any) => ({
+      ...row,
+      id: makeQueueId(DEFAULT_PROJECT_ID, row.id)
+    }));
+    const taken = await table.bulkGet(moved.map((row) => row.id));
+    await table.bulkDelete(legacy.map((row: any) => row.id));
+    await table.bulkPut(moved.filter((_, idx) => !taken[idx]));
   }
 }
 
 export const db = new LabelerDB();
 
+// Queue ids are scoped per project so the same sample id can be imported into several projects.
+export function makeQueueId(projectId: string, sampleId: string) {
+  return `${projectId}:${sampleId}`;
+}
+
+export async function ensureDefaultProject(): Promise<ProjectDoc> {
+  const existing = await db.projects.get(DEFAULT_PROJECT_ID);
+  if (existing) return existing;
+  const now = Date.now();
+  const doc: ProjectDoc = { id: DEFAULT_PROJECT_ID, name: "Default", createdAt: now, updatedAt: now };
+  await db.projects.put(doc);
+  return doc;
+}
+
+export async function deleteProjectData(projectId: string) {
+  const tables = [
+    db.queue,
+    db.results,
+    db.consensus,
+    db.reviews,
+    db.dispatches,
+    db.records,
+    db.promptVersions,
+    db.prompts,
+    db.settings,
+    db.projects
+  ];
+  await db.transaction("rw", tables, async () => {
+    await db.queue.where("projectId").equals(projectId).delete();
+    await db.results.where("projectId").equals(projectId).delete();
+    await db.consensus.where("projectId").equals(projectId).delete();
+    await db.reviews.where("projectId").equals(projectId).delete();
+    await db.dispatches.where("projectId").equals(projectId).delete();
+    await db.records.where("projectId").equals(projectId).delete();
+    await db.promptVersions.where("projectId").equals(projectId).delete();
+    await db.prompts.delete(projectId);
+    await db.settings.delete(projectId);
+    await db.projects.delete(projectId);
+  });
+}
+
+export async function listPromptVersions(projectId: string) {
+  return db.promptVersions
+    .where("[projectId+number]")
+    .between([projectId, Dexie.minKey], [projectId, Dexie.maxKey])
+    .toArray();
+}
+
+// Store a draft as the project's next prompt version.
+export async function createPromptVersion(
+  projectId: string,
+  draft: Pick<PromptVersion, "prompt" | "itemTemplate" | "schema">,
+  name: string
+) {
+  return db.transaction("rw", db.promptVersions, async () => {
+    const last = await db.promptVersions
+      .where("[projectId+number]")
+      .between([projectId, Dexie.minKey], [projectId, Dexie.maxKey])
+      .last();
+    const number = (last?.number ?? 0) + 1;
+    const version: PromptVersion = {
+      id: `${projectId}:v${number}`,
+      projectId,
+      number,
+      name,
+      prompt: draft.prompt,
+      itemTemplate: draft.itemTemplate,
+      schema: draft.schema,
+      createdAt: Date.now()
+    };
+    await db.promptVersions.add(version);
+    return version;
+  });
+}
+
+// Original import records of `items`, keyed by queue item id (items imported before records were
+// kept have none).
+export async function loadSourceRecords(items: QueueItem[]): Promise<SourceRecordMap> {
+  const ids = items.map((item) =>
+    makeQueueId(item.projectId, item.chunk?.sampleId || item.sample.id || item.id)
+  );
+  const records = await db.records.bulkGet(ids);
+  const map: SourceRecordMap = new Map();
+  items.forEach((item, idx) => {
+    const record = records[idx];
+    if (record) map.set(item.id, record.data);
+  });
+  return map;
+}
+
+// Sample text of each result, in order. Merged results of split samples have no queue item of their
+// own, so their text is put back together from the parts.
+export async function loadSampleTexts(projectId: string, results: ResultRecord[]) {
+  const partIds = (result: ResultRecord) => {
+    const base = makeQueueId(projectId, result.sampleId);
+    const run = typeof result.run === "number" ? `#${result.run}` : "";
+    return Array.from({ length: result.chunkCount ?? 0 }, (_, idx) => `${base}~${idx + 1}${run}`);
+  };
+  const ids = results.map((result) => (result.chunkCount ? partIds(result) : [result.id]));
+  const items = await db.queue.bulkGet(ids.flat());
+  let offset = 0;
+  return ids.map((group) => {
+    const texts = items
+      .slice(offset, (offset += group.length))
+      .map((item) => item?.sample.text ?? "");
+    // A sample whose text was not the split field carries it whole on every part.
+    return texts.every((text) => text === texts[0]) ? texts[0] ?? "" : joinChunkTexts(texts);
+  });
+}
+
+// Gold labels (the `goldKey` field of the original import records) of `sampleIds`, keyed by sample
+// id; samples without a record or without the field are left out.
+export async function loadGoldLabels(projectId: string, sampleIds: string[], goldKey: string) {
+  const key = goldKey.trim();
+  const gold = new Map<string, unknown>();
+  if (!key) return gold;
+  const ids = Array.from(new Set(sampleIds));
+  const records = await db.records.bulkGet(ids.map((id) => makeQueueId(projectId, id)));
+  records.forEach((record, idx) => {
+    const value = record ? readField(record.data, key) : undefined;
+    if (value !== undefined) gold.set(ids[idx], value);
+  });
+  return gold;
+}
+
+// Recompute agreement for one sample from its stored per-run results.
+export async function refreshConsensus(
+  projectId: string,
+  sampleId: string,
+  field: string,
+  expectedRuns: number
+) {
+  const results = await db.results
+    .where("[projectId+sampleId]")
+    .equals([projectId, sampleId])
+    .toArray();
+  const labels = results
+    .filter((r) => r.ok && typeof r.run === "number")
+    .sort((a, b) => (a.run ?? 0) - (b.run ?? 0))
+    .map((r) => ({
+      resultId: r.id,
+      run: r.run as number,
+      target: r.target,
+      label: normalizeLabel(readField(r.parsed, field))
+    }));
+  const summary = summarizeLabels(labels);
+  const record: ConsensusRecord = {
+    id: makeQueueId(projectId, sampleId),
+    projectId,
+    sampleId,
+    field,
+    expectedRuns,
+    labels,
+    ...summary,
+    updatedAt: Date.now()
+  };
+  await db.consensus.put(record);
+  // Keep the review flag on every run of the sample in sync with the latest agreement.
+  for (const result of results) {
+    if (typeof result.run !== "number") continue;
+    const flags = withReviewFlag(result.reviewFlags, "disagreement", record.disagreement);
+    if (flags !== result.reviewFlags) await db.results.update(result.id, { reviewFlags: flags });
+  }
+  return record;
+}
+
+// A review only counts for the reply it was made on. Reviews from before resultCreatedAt was
+// stored are matched by time instead.
+export function reviewOfResult(
+  review: ReviewRecord | undefined,
+  result: ResultRecord
+): ReviewRecord | undefined {
+  if (!review) return undefined;
+  const current =
+    typeof review.resultCreatedAt === "number"
+      ? review.resultCreatedAt === result.createdAt
+      : review.reviewedAt >= result.createdAt;
+  return current ? review : undefined;
+}
+
+export function withReviewFlag(
+  flags: ReviewFlag[] | undefined,
+  flag: ReviewFlag,
+  enabled: boolean
+): ReviewFlag[] | undefined {
+  const current = flags || [];
+  if (enabled === current.includes(flag)) return flags;
+  return enabled ? [...current, flag] : current.filter((f) => f !== flag);
+}
+
 export const DEFAULT_SETTINGS: SettingsDoc = {
-  id: "active",
+  id: DEFAULT_PROJECT_ID,
   responseDelayMs: 2000,
   batchSize: 20,
+  adaptiveBatchSize: false,
+  minBatchSize: 1,
+  maxBatchSize: 50,
   inputKeys: [],
   samplePercent: 100,
+  sampleSeed: "",
+  stratifyKey: "",
+  stratumCap: 0,
+  importFilters: [],
+  maxPromptChars: 0,
+  oversizedSamples: "flag",
+  chunkOverlapChars: 200,
+  duplicateIdPolicy: "skip",
+  dedupeContent: false,
   outputCountMode: "match_input",
+  schemaRepairRounds: 1,
+  maxParallelTabs: 1,
+  consensusMode: "off",
+  consensusRuns: 3,
+  consensusRepeatSite: DEFAULT_SITE,
+  consensusField: "output_text",
+  reviewConfidenceField: "confidence",
+  reviewConfidenceThreshold: 0,
+  retryMaxAttempts: 3,
+  retryBaseDelayMs: 30000,
+  retryErrorClasses: DEFAULT_RETRY_ERROR_CLASSES,
+  siteCooldownMs: 10 * 60 * 1000,
+  newChatEveryBatches: 0,
+  newChatMaxChars: 0,
+  rulesOncePerChat: false,
+  dispatchMode: "web",
+  apiBaseUrl: "https://api.openai.com/v1",
+  apiModel: "gpt-4o-mini",
+  apiKey: "",
+  exportFormat: "jsonl",
+  exportRows: "all",
+  exportJoinInput: false,
+  exportGzip: false,
+  exportPromptVersionId: "",
+  experimentVersionIds: [],
+  experimentPercent: 10,
+  goldKey: "",
+  goldField: "output_text",
   updatedAt: Date.now()
 };
@@ -1,5 +1,16 @@
 import { useEffect, useRef, useState, type ChangeEvent } from "react";
-import { db, DEFAULT_SETTINGS } from "../db";
+import Dexie from "dexie";
+import {
+  db,
+  DEFAULT_PROJECT_ID,
+  DEFAULT_SETTINGS,
+  createPromptVersion,
+  deleteProjectData,
+  ensureDefaultProject,
+  listPromptVersions,
+  loadSourceRecords,
+  makeQueueId
+} from "../db";
 import type {
   BackgroundMessage,
   BackgroundResponse,
@@ -7,20 +18,82 @@ import type {
   Sample,
   StatsSnapshot,
   ResultRecord,
-  OutputCountMode
+  OutputCountMode,
+  ProjectDoc,
+  PromptVersion,
+  SettingsDoc,
+  AutoTarget,
+  ConsensusMode,
+  DuplicateIdPolicy,
+  ImportFilter,
+  ImportFilterOp,
+  OversizedSamplePolicy,
+  ExportFormat,
+  ExportRowFilter,
+  RetryErrorClass,
+  WebSite,
+  SourceRecord
 } from "../shared/types";
 import { DEFAULT_PROMPT } from "../shared/defaultPrompt";
+import { parseSchemaText } from "../shared/jsonSchema";
+import { buildBatchPrompt, DEFAULT_ITEM_TEMPLATE, usesSourceRecord } from "../shared/template";
+import { RETRY_ERROR_CLASSES } from "../shared/retry";
+import { measureItem, promptOverhead, splitLongItem } from "../shared/chunking";
+import {
+  createRandom,
+  createStratifiedSampler,
+  planStrata,
+  type ImportSelection
+} from "../shared/sampling";
+import { variantShare } from "../shared/experiment";
+import { SITE_IDS, SITES } from "../shared/sites";
+import { IMPORT_FORMAT_LABELS, type ImportFormat } from "../workers/importFormats";
+import { ConsensusPanel } from "./ConsensusPanel";
+import { DispatchPanel } from "./DispatchPanel";
+import { EvaluationPanel } from "./EvaluationPanel";
+import { ExperimentPanel } from "./ExperimentPanel";
+import { exportResults } from "./exportResults";
+import { PromptVersionsPanel, versionLabel } from "./PromptVersionsPanel";
+import { ReviewPanel } from "./ReviewPanel";
+import { downloadBlob, formatDuration, formatTime, targetLabel } from "./format";
+import { Stat } from "./Stat";
 import "./styles.css";
 
+const SITE_LABELS = SITE_IDS.map((id) => SITES[id].label);
+
+const RETRY_CLASS_LABELS: Record<RetryErrorClass, string> = {
+  timeout: "Timeout",
+  send_failed: "Send failed",
+  batch_parse_failed: "Unparseable reply",
+  missing_result: "Missing from reply",
+  schema_failed: "Schema failed"
+};
+
 type ImportLog = { level: "info" | "error"; message: string };
 
-type ImportCandidate = {
-  file: File;
-  isGzip: boolean;
+type PromptDraft = { prompt: string; itemTemplate: string; schema: string };
+
+const ACTIVE_PROJECT_KEY = "llm-labeler:activeProject";
+
+type ImportAnalysis = {
   eligibleCount: number;
+  // Rows that pass the import filters, in total and per stratum.
+  matchedCount: number;
+  strata: Record<string, number>;
   keys: string[];
+  format: ImportFormat | null;
 };
 
+type ImportCandidate = ImportAnalysis & {
+  file: File;
+  isGzip: boolean;
+  // Filters and stratify key the counts were taken with.
+  selection: ImportSelection;
+};
+
+// Strata listed in the import log and key panel; the rest are summed up.
+const SHOWN_STRATA = 20;
+
 const RECOMMENDED_INPUT_KEYS = [
   "input_text",
   "inputText",
@@ -33,6 +106,23 @@ const RECOMMENDED_INPUT_KEYS = [
   "content"
 ];
 
+function buildImportSelection(s: SettingsDoc): ImportSelection {
+  return {
+    filters: s.importFilters.filter((f) => f.key.trim()),
+    stratifyKey: s.stratifyKey.trim()
+  };
+}
+
+// "en 120/600, fr 40/40, ..." (taken / matching rows), largest strata first.
+function formatStrata(counts: Record<string, number>, targets: Record<string, number>) {
+  const entries = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  const shown = entries
+    .slice(0, SHOWN_STRATA)
+    .map(([stratum, count]) => `${stratum} ${targets[stratum] ?? count}/${count}`);
+  if (entries.length > SHOWN_STRATA) shown.push(`${entries.length - SHOWN_STRATA} more value(s)`);
+  return shown.join(", ");
+}
+
 function buildDefaultInputKeys(detectedKeys: string[], savedKeys: string[]) {
   const detected = new Set(detectedKeys);
   const next: string[] = [];
@@ -63,6 +153,98 @@ function buildDefaultInputKeys(detectedKeys: string[], savedKeys: string[]) {
   return next;
 }
 
+function normalizeSettings(saved: SettingsDoc | undefined, projectId: string): SettingsDoc {
+  if (!saved) return { ...DEFAULT_SETTINGS, id: projectId, updatedAt: Date.now() };
+  return {
+    id: projectId,
+    responseDelayMs: saved.responseDelayMs ?? DEFAULT_SETTINGS.responseDelayMs,
+    batchSize: saved.batchSize ?? DEFAULT_SETTINGS.batchSize,
+    adaptiveBatchSize: saved.adaptiveBatchSize ?? DEFAULT_SETTINGS.adaptiveBatchSize,
+    minBatchSize: Math.max(1, saved.minBatchSize ?? DEFAULT_SETTINGS.minBatchSize),
+    maxBatchSize: Math.max(1, saved.maxBatchSize ?? DEFAULT_SETTINGS.maxBatchSize),
+    inputKeys: Array.isArray(saved.inputKeys)
+      ? saved.inputKeys.filter((k) => typeof k === "string")
+      : DEFAULT_SETTINGS.inputKeys,
+    samplePercent: Math.min(100, Math.max(1, saved.samplePercent ?? DEFAULT_SETTINGS.samplePercent)),
+    duplicateIdPolicy: saved.duplicateIdPolicy ?? DEFAULT_SETTINGS.duplicateIdPolicy,
+    dedupeContent: saved.dedupeContent ?? DEFAULT_SETTINGS.dedupeContent,
+    sampleSeed: saved.sampleSeed ?? DEFAULT_SETTINGS.sampleSeed,
+    stratifyKey: saved.stratifyKey ?? DEFAULT_SETTINGS.stratifyKey,
+    stratumCap: Math.max(0, saved.stratumCap ?? DEFAULT_SETTINGS.stratumCap),
+    importFilters: Array.isArray(saved.importFilters)
+      ? saved.importFilters.filter((f) => f && typeof f.key === "string")
+      : DEFAULT_SETTINGS.importFilters,
+    maxPromptChars: Math.max(0, saved.maxPromptChars ?? DEFAULT_SETTINGS.maxPromptChars),
+    oversizedSamples: saved.oversizedSamples ?? DEFAULT_SETTINGS.oversizedSamples,
+    chunkOverlapChars: Math.max(0, saved.chunkOverlapChars ?? DEFAULT_SETTINGS.chunkOverlapChars),
+    outputCountMode: saved.outputCountMode ?? DEFAULT_SETTINGS.outputCountMode,
+    schemaRepairRounds: saved.schemaRepairRounds ?? DEFAULT_SETTINGS.schemaRepairRounds,
+    maxParallelTabs: Math.max(1, saved.maxParallelTabs ?? DEFAULT_SETTINGS.maxParallelTabs),
+    consensusMode: saved.consensusMode ?? DEFAULT_SETTINGS.consensusMode,
+    consensusRuns: Math.max(2, saved.consensusRuns ?? DEFAULT_SETTINGS.consensusRuns),
+    consensusRepeatSite: saved.consensusRepeatSite ?? DEFAULT_SETTINGS.consensusRepeatSite,
+    consensusField: saved.consensusField || DEFAULT_SETTINGS.consensusField,
+    reviewConfidenceField: saved.reviewConfidenceField || DEFAULT_SETTINGS.reviewConfidenceField,
+    reviewConfidenceThreshold:
+      saved.reviewConfidenceThreshold ?? DEFAULT_SETTINGS.reviewConfidenceThreshold,
+    retryMaxAttempts: Math.max(1, saved.retryMaxAttempts ?? DEFAULT_SETTINGS.retryMaxAttempts),
+    retryBaseDelayMs: saved.retryBaseDelayMs ?? DEFAULT_SETTINGS.retryBaseDelayMs,
+    retryErrorClasses: Array.isArray(saved.retryErrorClasses)
+      ? saved.retryErrorClasses.filter((c) => RETRY_ERROR_CLASSES.includes(c))
+      : DEFAULT_SETTINGS.retryErrorClasses,
+    siteCooldownMs: saved.siteCooldownMs ?? DEFAULT_SETTINGS.siteCooldownMs,
+    newChatEveryBatches: Math.max(0, saved.newChatEveryBatches ?? DEFAULT_SETTINGS.newChatEveryBatches),
+    newChatMaxChars: Math.max(0, saved.newChatMaxChars ?? DEFAULT_SETTINGS.newChatMaxChars),
+    rulesOncePerChat: saved.rulesOncePerChat ?? DEFAULT_SETTINGS.rulesOncePerChat,
+    dispatchMode: saved.dispatchMode ?? DEFAULT_SETTINGS.dispatchMode,
+    apiBaseUrl: saved.apiBaseUrl ?? DEFAULT_SETTINGS.apiBaseUrl,
+    apiModel: saved.apiModel ?? DEFAULT_SETTINGS.apiModel,
+    apiKey: saved.apiKey ?? DEFAULT_SETTINGS.apiKey,
+    exportFormat: saved.exportFormat ?? DEFAULT_SETTINGS.exportFormat,
+    exportRows: saved.exportRows ?? DEFAULT_SETTINGS.exportRows,
+    exportJoinInput: saved.exportJoinInput ?? DEFAULT_SETTINGS.exportJoinInput,
+    exportGzip: saved.exportGzip ?? DEFAULT_SETTINGS.exportGzip,
+    exportPromptVersionId: saved.exportPromptVersionId ?? DEFAULT_SETTINGS.exportPromptVersionId,
+    experimentVersionIds: Array.isArray(saved.experimentVersionIds)
+      ? saved.experimentVersionIds.filter((id) => typeof id === "string")
+      : DEFAULT_SETTINGS.experimentVersionIds,
+    experimentPercent: Math.min(
+      100,
+      Math.max(1, saved.experimentPercent ?? DEFAULT_SETTINGS.experimentPercent)
+    ),
+    goldKey: saved.goldKey ?? DEFAULT_SETTINGS.goldKey,
+    goldField: saved.goldField || DEFAULT_SETTINGS.goldField,
+    updatedAt: Date.now()
+  };
+}
+
+async function requestApiAccess(baseUrl: string) {
+  let origin: string;
+  try {
+    origin = new URL(baseUrl.trim()).origin;
+  } catch {
+    return false;
+  }
+  try {
+    return await chrome.permissions.request({ origins: [`${origin}/*`] });
+  } catch {
+    return false;
+  }
+}
+
+async function loadProjectState(projectId: string) {
+  const savedPrompt = await db.prompts.get(projectId);
+  const savedSettings = await db.settings.get(projectId);
+  return {
+    prompt: typeof savedPrompt?.prompt === "string" ? savedPrompt.prompt : DEFAULT_PROMPT,
+    itemTemplate: typeof savedPrompt?.itemTemplate === "string" ? savedPrompt.itemTemplate : "",
+    schema: typeof savedPrompt?.schema === "string" ? savedPrompt.schema : "",
+    versionId: savedPrompt?.versionId ?? null,
+    versions: await listPromptVersions(projectId),
+    settings: normalizeSettings(savedSettings, projectId)
+  };
+}
+
 async function sendToBackground(msg: BackgroundMessage): Promise<BackgroundResponse> {
   return new Promise((resolve, reject) => {
     chrome.runtime.sendMessage(msg, (res: BackgroundResponse) => {
@@ -76,13 +258,21 @@ async function sendToBackground(msg: BackgroundMessage): Promise<BackgroundRespo
 }
 
 export function App() {
+  const [projects, setProjects] = useState<ProjectDoc[]>([]);
+  const [projectId, setProjectId] = useState(DEFAULT_PROJECT_ID);
   const [prompt, setPrompt] = useState(DEFAULT_PROMPT);
+  const [itemTemplate, setItemTemplate] = useState("");
+  const [schemaText, setSchemaText] = useState("");
+  const [promptVersions, setPromptVersions] = useState<PromptVersion[]>([]);
+  const [activeVersionId, setActiveVersionId] = useState<string | null>(null);
+  const [promptPreview, setPromptPreview] = useState<string | null>(null);
   const [settings, setSettings] = useState(DEFAULT_SETTINGS);
   const [stats, setStats] = useState<StatsSnapshot>({
     pending: 0,
     inflight: 0,
     done: 0,
     error: 0,
+    dead: 0,
     running: false
   });
   const [running, setRunning] = useState(false);
@@ -101,30 +291,27 @@ export function App() {
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const promptRef = useRef<HTMLTextAreaElement | null>(null);
   const loadedRef = useRef(false);
+  // Read by interval callbacks, which would otherwise capture the project from the first render.
+  const projectIdRef = useRef(DEFAULT_PROJECT_ID);
 
   useEffect(() => {
     (async () => {
-      const savedPrompt = await db.prompts.get("active");
-      if (savedPrompt && typeof savedPrompt.prompt === "string") {
-        setPrompt(savedPrompt.prompt);
-      }
-      const savedSettings = await db.settings.get("active");
-      if (savedSettings) {
-        setSettings({
-          id: "active",
-          responseDelayMs: savedSettings.responseDelayMs ?? DEFAULT_SETTINGS.responseDelayMs,
-          batchSize: savedSettings.batchSize ?? DEFAULT_SETTINGS.batchSize,
-          inputKeys: Array.isArray(savedSettings.inputKeys)
-            ? savedSettings.inputKeys.filter((k) => typeof k === "string")
-            : DEFAULT_SETTINGS.inputKeys,
-          samplePercent: Math.min(
-            100,
-            Math.max(1, savedSettings.samplePercent ?? DEFAULT_SETTINGS.samplePercent)
-          ),
-          outputCountMode: savedSettings.outputCountMode ?? DEFAULT_SETTINGS.outputCountMode,
-          updatedAt: Date.now()
-        });
-      }
+      await ensureDefaultProject();
+      const allProjects = await db.projects.orderBy("createdAt").toArray();
+      setProjects(allProjects);
+      const savedProjectId = localStorage.getItem(ACTIVE_PROJECT_KEY);
+      const initialProjectId = allProjects.some((p) => p.id === savedProjectId)
+        ? (savedProjectId as string)
+        : DEFAULT_PROJECT_ID;
+      const loaded = await loadProjectState(initialProjectId);
+      projectIdRef.current = initialProjectId;
+      setProjectId(initialProjectId);
+      setPrompt(loaded.prompt);
+      setItemTemplate(loaded.itemTemplate);
+      setSchemaText(loaded.schema);
+      setPromptVersions(loaded.versions);
+      setActiveVersionId(loaded.versionId);
+      setSettings(loaded.settings);
       refreshStats();
       detectTarget();
       refreshPreview();
@@ -149,10 +336,10 @@ export function App() {
       return;
     }
     const timer = setTimeout(() => {
-      persistPrompt(prompt);
+      persistPrompt(projectId, { prompt, itemTemplate, schema: schemaText });
     }, 400);
     return () => clearTimeout(timer);
-  }, [prompt]);
+  }, [projectId, prompt, itemTemplate, schemaText]);
 
   const appendLog = (entry: ImportLog) => {
     setLogs((prev) => {
@@ -168,17 +355,15 @@ export function App() {
     const blob = new Blob([logs.map((l) => `[${l.level}] ${l.message}`).join("\n")], {
       type: "text/plain"
     });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "llm-labeler-log.txt";
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, "llm-labeler-log.txt");
   };
 
   async function refreshStats() {
     try {
-      const res = await sendToBackground({ type: "stats:request" });
+      const res = await sendToBackground({
+        type: "stats:request",
+        projectId: projectIdRef.current
+      });
       if (res.ok && res.type === "stats:request") {
         setStats(res.stats);
         if (typeof res.stats.running === "boolean") {
@@ -195,9 +380,7 @@ export function App() {
       const res = await sendToBackground({ type: "detect:target" });
       const target = (res as any).target as string | undefined;
       if (res.ok && target) {
-        const label =
-          target === "gemini" ? "Gemini" : target === "chatgpt" ? "ChatGPT" : target;
-        setDetectedTarget(label);
+        setDetectedTarget(targetLabel(target));
       } else {
         setDetectedTarget("Not detected");
       }
@@ -206,9 +389,154 @@ export function App() {
     }
   }
 
-  async function persistPrompt(currentPrompt: string) {
-    await db.prompts.put({ id: "active", prompt: currentPrompt, updatedAt: Date.now() });
-    await sendToBackground({ type: "prompt:update", prompt: currentPrompt });
+  // Saves the editor's draft only; runs keep using the active version until another one is saved
+  // or picked.
+  async function persistPrompt(targetProjectId: string, draft: PromptDraft) {
+    const saved = await db.prompts.get(targetProjectId);
+    await db.prompts.put({
+      id: targetProjectId,
+      ...draft,
+      versionId: saved?.versionId ?? null,
+      updatedAt: Date.now()
+    });
+  }
+
+  async function activatePromptVersion(version: PromptVersion) {
+    const draft = {
+      prompt: version.prompt,
+      itemTemplate: version.itemTemplate,
+      schema: version.schema
+    };
+    await db.prompts.put({
+      id: version.projectId,
+      ...draft,
+      versionId: version.id,
+      updatedAt: Date.now()
+    });
+    await sendToBackground({
+      type: "prompt:update",
+      projectId: version.projectId,
+      ...draft,
+      versionId: version.id
+    });
+    setActiveVersionId(version.id);
+  }
+
+  async function savePromptVersion(name: string) {
+    const version = await createPromptVersion(
+      projectId,
+      { prompt, itemTemplate, schema: schemaText },
+      name
+    );
+    setPromptVersions((prev) => [...prev, version]);
+    await activatePromptVersion(version);
+    appendLog({ level: "info", message: `Saved prompt as ${versionLabel(version)}` });
+  }
+
+  async function usePromptVersion(version: PromptVersion) {
+    const discard = `Discard unsaved prompt changes and load ${versionLabel(version)}?`;
+    if (promptDirty && !window.confirm(discard)) return;
+    await activatePromptVersion(version);
+    setPrompt(version.prompt);
+    setItemTemplate(version.itemTemplate);
+    setSchemaText(version.schema);
+    setPromptPreview(null);
+    appendLog({ level: "info", message: `Using prompt ${versionLabel(version)}` });
+  }
+
+  async function previewPrompt() {
+    const items = await db.queue
+      .where("[projectId+status+seq]")
+      .between([projectId, "pending", Dexie.minKey], [projectId, "pending", Dexie.maxKey])
+      .limit(Math.min(3, Math.max(1, settings.batchSize)))
+      .toArray();
+    if (!items.length) {
+      setPromptPreview("(No pending samples to preview. Import a file first.)");
+      return;
+    }
+    const records = usesSourceRecord(itemTemplate) ? await loadSourceRecords(items) : undefined;
+    setPromptPreview(buildBatchPrompt(items, prompt, itemTemplate, records));
+  }
+
+  async function refreshProjects() {
+    const allProjects = await db.projects.orderBy("createdAt").toArray();
+    setProjects(allProjects);
+    return allProjects;
+  }
+
+  async function switchProject(nextProjectId: string) {
+    if (nextProjectId === projectId) return;
+    // Save pending prompt edits for the project we are leaving before swapping state.
+    await persistPrompt(projectId, { prompt, itemTemplate, schema: schemaText });
+    const loaded = await loadProjectState(nextProjectId);
+    projectIdRef.current = nextProjectId;
+    localStorage.setItem(ACTIVE_PROJECT_KEY, nextProjectId);
+    setProjectId(nextProjectId);
+    setPrompt(loaded.prompt);
+    setItemTemplate(loaded.itemTemplate);
+    setSchemaText(loaded.schema);
+    setPromptVersions(loaded.versions);
+    setActiveVersionId(loaded.versionId);
+    setPromptPreview(null);
+    setSettings(loaded.settings);
+    setImported(0);
+    setLastFileName("");
+    setRecentResults([]);
+    await refreshStats();
+    await refreshPreview();
+  }
+
+  async function handleCreateProject() {
+    const name = window.prompt("New project name", "")?.trim();
+    if (!name) return;
+    const now = Date.now();
+    const id = generateId(now);
+    await db.projects.put({ id, name, createdAt: now, updatedAt: now });
+    await refreshProjects();
+    appendLog({ level: "info", message: `Created project "${name}".` });
+    await switchProject(id);
+  }
+
+  async function handleRenameProject() {
+    const current = projects.find((p) => p.id === projectId);
+    const name = window.prompt("Rename project", current?.name ?? "")?.trim();
+    if (!name || !current) return;
+    await db.projects.update(projectId, { name, updatedAt: Date.now() });
+    await refreshProjects();
+  }
+
+  async function handleDeleteProject() {
+    const current = projects.find((p) => p.id === projectId);
+    if (!current || projects.length <= 1) return;
+    if (stats.runningProjectId === projectId) {
+      appendLog({ level: "error", message: "Pause processing before deleting this project." });
+      return;
+    }
+    const ok = window.confirm(
+      `Delete project "${current.name}" with its prompt, settings, queue and results?`
+    );
+    if (!ok) return;
+    const fallback = projects.find((p) => p.id !== projectId);
+    await deleteProjectData(projectId);
+    await refreshProjects();
+    appendLog({ level: "info", message: `Deleted project "${current.name}".` });
+    if (fallback) {
+      // The deleted project's prompt is gone; switch without re-saving it.
+      const loaded = await loadProjectState(fallback.id);
+      projectIdRef.current = fallback.id;
+      localStorage.setItem(ACTIVE_PROJECT_KEY, fallback.id);
+      setProjectId(fallback.id);
+      setPrompt(loaded.prompt);
+      setItemTemplate(loaded.itemTemplate);
+      setSchemaText(loaded.schema);
+      setPromptVersions(loaded.versions);
+      setActiveVersionId(loaded.versionId);
+      setPromptPreview(null);
+      setSettings(loaded.settings);
+      setRecentResults([]);
+      await refreshStats();
+      await refreshPreview();
+    }
   }
 
   const adjustPromptHeight = () => {
@@ -221,7 +549,13 @@ export function App() {
   async function refreshPreview() {
     setPreviewLoading(true);
     try {
-      const rows = await db.results.orderBy("createdAt").reverse().limit(20).toArray();
+      const currentProjectId = projectIdRef.current;
+      const rows = await db.results
+        .where("[projectId+createdAt]")
+        .between([currentProjectId, Dexie.minKey], [currentProjectId, Dexie.maxKey])
+        .reverse()
+        .limit(20)
+        .toArray();
       setRecentResults(rows);
     } catch (err: any) {
       appendLog({
@@ -236,9 +570,24 @@ export function App() {
   async function retryErrors() {
     setRetryingErrors(true);
     try {
-      const errors = await db.queue.where("status").equals("error").toArray();
+      // Dead items (automatic retries used up) get one more attempt too. Samples over the prompt
+      // budget stay failed; they need a larger budget or splitting on a fresh import.
+      const failed = await db.queue
+        .where("[projectId+status]")
+        .anyOf([
+          [projectId, "error"],
+          [projectId, "dead"]
+        ])
+        .toArray();
+      const errors = failed.filter((item) => !item.oversized);
+      const skipped = failed.length - errors.length;
       if (!errors.length) {
-        appendLog({ level: "info", message: "No error items to retry." });
+        appendLog({
+          level: "info",
+          message: skipped
+            ? `No error items to retry (${skipped} oversized sample(s) skipped).`
+            : "No error items to retry."
+        });
         return;
       }
       const now = Date.now();
@@ -247,12 +596,17 @@ export function App() {
           db.queue.update(item.id, {
             status: "pending",
             lastError: null,
-            retries: (item.retries || 0) + 1,
+            nextAttemptAt: null,
             updatedAt: now
           })
         )
       );
-      appendLog({ level: "info", message: `Retried ${errors.length} error item(s).` });
+      appendLog({
+        level: "info",
+        message: `Retried ${errors.length} error / dead item(s)${
+          skipped ? `; ${skipped} oversized sample(s) skipped` : ""
+        }.`
+      });
       await refreshStats();
       await refreshPreview();
     } catch (err: any) {
@@ -264,20 +618,33 @@ export function App() {
 
   async function handleStart() {
     appendLog({ level: "info", message: "Start requested" });
-    await persistPrompt(prompt);
+    if (schemaError) {
+      appendLog({ level: "error", message: `Output schema is invalid and will be ignored: ${schemaError}` });
+    }
+    // Host access for the API endpoint has to be granted while the click still counts as a gesture.
+    if (settings.dispatchMode === "api" && !(await requestApiAccess(settings.apiBaseUrl))) {
+      appendLog({ level: "error", message: `No access to API endpoint ${settings.apiBaseUrl || "(empty)"}` });
+      return;
+    }
+    await persistPrompt(projectId, { prompt, itemTemplate, schema: schemaText });
+    // Every run is tied to a saved version, so unsaved edits become one now.
+    if (promptDirty) await savePromptVersion("");
+    const { id: _id, updatedAt: _updatedAt, ...runSettings } = settings;
     const res = await sendToBackground({
       type: "control:start",
-      settings: {
-        responseDelayMs: settings.responseDelayMs,
-        batchSize: settings.batchSize,
-        inputKeys: settings.inputKeys,
-        samplePercent: settings.samplePercent,
-        outputCountMode: settings.outputCountMode
-      }
+      projectId,
+      settings: runSettings
     });
     if (res.ok) {
       setRunning(true);
       appendLog({ level: "info", message: "Dispatcher started" });
+      if (settings.experimentVersionIds.length) {
+        const share = variantShare(settings.experimentVersionIds.length, settings.experimentPercent);
+        appendLog({
+          level: "info",
+          message: `Experiment: ${settings.experimentVersionIds.length} prompt version(s), ${share}% of samples each`
+        });
+      }
     }
   }
 
@@ -291,48 +658,53 @@ export function App() {
   }
 
   async function handleExport() {
-    const results = await db.results.toArray();
-    const exportName = buildExportName(lastFileName);
-    const lines = results.map((r) =>
-      JSON.stringify({
-        id: r.id,
-        sampleId: r.sampleId,
-        target: r.target,
-        ok: r.ok,
-        error: r.error,
-        parsed: r.parsed,
-        rawResponse: r.rawResponse
-      })
-    );
-    const blob = new Blob([lines.join("\n")], { type: "application/jsonl" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = exportName;
-    a.click();
-    URL.revokeObjectURL(url);
+    try {
+      await db.settings.put({ ...settings, id: projectId, updatedAt: Date.now() });
+    } catch (err: any) {
+      appendLog({ level: "error", message: `Failed to persist settings: ${err?.message || err}` });
+    }
+    const baseName = buildExportName(lastFileName || activeProject?.name || "").replace(/\.jsonl$/i, "");
+    const { blob, fileName, count } = await exportResults(projectId, baseName, {
+      format: settings.exportFormat,
+      rows: settings.exportRows,
+      joinInput: settings.exportJoinInput,
+      gzip: settings.exportGzip,
+      promptVersionId: settings.exportPromptVersionId || null
+    });
+    downloadBlob(blob, fileName);
+    appendLog({ level: "info", message: `Exported ${count} result(s) to ${fileName}` });
   }
 
   async function handleClearQueue() {
-    const ok = window.confirm("Clear queue and results? Prompts/settings will be kept.");
+    const ok = window.confirm(
+      `Clear queue and results of "${activeProject?.name ?? projectId}"? Prompts/settings will be kept.`
+    );
     if (!ok) return;
-    await db.queue.clear();
-    await db.results.clear();
+    await db.queue.where("projectId").equals(projectId).delete();
+    await db.results.where("projectId").equals(projectId).delete();
+    await db.consensus.where("projectId").equals(projectId).delete();
+    await db.reviews.where("projectId").equals(projectId).delete();
+    await db.dispatches.where("projectId").equals(projectId).delete();
+    await db.records.where("projectId").equals(projectId).delete();
+    setRecentResults([]);
     setLogs([]);
     setImported(0);
     setLastFileName("");
-    setStats({ pending: 0, inflight: 0, done: 0, error: 0 });
+    setStats({ pending: 0, inflight: 0, done: 0, error: 0, dead: 0 });
     await refreshStats();
     appendLog({ level: "info", message: "Cleared queue and results." });
   }
 
-  const analyzeImportFile = (file: File, isGzip: boolean) =>
-    new Promise<{ eligibleCount: number; keys: string[] }>((resolve, reject) => {
-      const worker = new Worker(new URL("../workers/stream-jsonl.ts", import.meta.url), {
+  const analyzeImportFile = (file: File, isGzip: boolean, selection: ImportSelection) =>
+    new Promise<ImportAnalysis>((resolve, reject) => {
+      const worker = new Worker(new URL("../workers/stream-import.ts", import.meta.url), {
         type: "module"
       });
       let eligibleCount = 0;
+      let matchedCount = 0;
+      let strata: Record<string, number> = {};
       let keys: string[] = [];
+      let format: ImportFormat | null = null;
       let settled = false;
       const finish = (fn: () => void) => {
         if (settled) return;
@@ -344,19 +716,35 @@ export function App() {
         const data = ev.data;
         if (data.type === "analysis") {
           eligibleCount = Number(data.count) || 0;
+          matchedCount = Number(data.matched) || 0;
+          strata = data.strata ?? {};
           keys = Array.isArray(data.keys)
             ? (data.keys as unknown[]).filter((k: unknown): k is string => typeof k === "string")
             : [];
+          format = data.format ?? null;
         } else if (data.type === "error") {
           finish(() => reject(new Error(data.error || "analyze_failed")));
         } else if (data.type === "done") {
-          finish(() => resolve({ eligibleCount, keys }));
+          finish(() => resolve({ eligibleCount, matchedCount, strata, keys, format }));
         }
       };
       worker.onerror = (err) => finish(() => reject(err));
-      worker.postMessage({ file, isGzip, mode: "analyze" });
+      worker.postMessage({ file, isGzip, mode: "analyze", selection });
     });
 
+  // Counts the file's rows under the current filters and stratify key.
+  async function analyzeCandidate(file: File, isGzip: boolean): Promise<ImportCandidate> {
+    const selection = buildImportSelection(settings);
+    const analysis = await analyzeImportFile(file, isGzip, selection);
+    if (selection.filters.length) {
+      appendLog({
+        level: "info",
+        message: `${analysis.matchedCount} of ${analysis.eligibleCount} record(s) match the import filters.`
+      });
+    }
+    return { ...analysis, file, isGzip, selection };
+  }
+
   async function prepareImport(file: File) {
     if (importing || preparingImport) return;
     setPreparingImport(true);
@@ -364,20 +752,17 @@ export function App() {
     setImportKeySelection([]);
     setImportKeyFilter("");
 
-    appendLog({ level: "info", message: `Analyzing ${file.name} for JSON keys...` });
+    appendLog({ level: "info", message: `Analyzing ${file.name} for keys...` });
     const isGzip = file.name.endsWith(".gz");
     try {
-      const analysis = await analyzeImportFile(file, isGzip);
-      if (analysis.eligibleCount <= 0) {
-        appendLog({ level: "info", message: "No non-empty lines found. Nothing to import." });
+      const candidate = await analyzeCandidate(file, isGzip);
+      if (candidate.eligibleCount <= 0) {
+        appendLog({ level: "info", message: "No records found. Nothing to import." });
         return;
       }
-      const candidate: ImportCandidate = {
-        file,
-        isGzip,
-        eligibleCount: analysis.eligibleCount,
-        keys: analysis.keys
-      };
+      if (candidate.format) {
+        appendLog({ level: "info", message: `Reading as ${IMPORT_FORMAT_LABELS[candidate.format]}.` });
+      }
       if (!candidate.keys.length) {
         appendLog({
           level: "info",
@@ -402,7 +787,11 @@ export function App() {
 
   async function startPreparedImport() {
     if (!importCandidate) return;
-    const selectedKeys = importKeySelection.filter((k) => importCandidate.keys.includes(k));
+    // The reference label must not reach the model.
+    const goldKey = settings.goldKey.trim();
+    const selectedKeys = importKeySelection.filter(
+      (k) => importCandidate.keys.includes(k) && k !== goldKey
+    );
     if (!selectedKeys.length) {
       appendLog({ level: "error", message: "Select at least one key to import." });
       return;
@@ -411,14 +800,24 @@ export function App() {
     const nextSettings = { ...settings, inputKeys: selectedKeys, updatedAt: now };
     setSettings(nextSettings);
     try {
-      await db.settings.put({ ...nextSettings, id: "active" });
+      await db.settings.put({ ...nextSettings, id: projectId });
     } catch (err: any) {
       appendLog({ level: "error", message: `Failed to persist settings: ${err?.message || err}` });
     }
-    const candidate = importCandidate;
+    let candidate = importCandidate;
     setImportCandidate(null);
     setImportKeySelection([]);
     setImportKeyFilter("");
+    // Filters or the stratify key changed while the key panel was open: count again.
+    if (JSON.stringify(buildImportSelection(settings)) !== JSON.stringify(candidate.selection)) {
+      appendLog({ level: "info", message: "Import filters changed; counting rows again..." });
+      try {
+        candidate = await analyzeCandidate(candidate.file, candidate.isGzip);
+      } catch (err: any) {
+        appendLog({ level: "error", message: `Analyze failed: ${err?.message || err}` });
+        return;
+      }
+    }
     await handleFile(candidate, selectedKeys);
   }
 
@@ -429,6 +828,14 @@ export function App() {
   }
 
   async function handleFile(candidate: ImportCandidate, inputKeys: string[]) {
+    if (settings.consensusMode === "sites" && settings.dispatchMode === "api") {
+      appendLog({
+        level: "error",
+        message: "Every-site consensus needs web dispatch; switch to web or use Repeat N times."
+      });
+      return;
+    }
+    const importProjectId = projectId;
     setImporting(true);
     setImported(0);
     appendLog({ level: "info", message: `Importing ${candidate.file.name}...` });
@@ -437,36 +844,88 @@ export function App() {
       100,
       Math.max(1, Number(settings.samplePercent) || DEFAULT_SETTINGS.samplePercent)
     );
-    const shouldSample = samplePercent < 100;
+    const stratumCap = Math.max(0, Math.floor(Number(settings.stratumCap) || 0));
+    const shouldSample = samplePercent < 100 || stratumCap > 0;
+    const { stratifyKey } = candidate.selection;
+    const consensusRuns = buildConsensusRuns(settings);
+    if (consensusRuns) {
+      appendLog({
+        level: "info",
+        message: `Consensus: each sample is queued ${consensusRuns.length} times (${consensusRuns
+          .map((r) => (r.target === "auto" ? "any site" : targetLabel(r.target)))
+          .join(", ")}).`
+      });
+    }
 
-    let baseSeq = 0;
+    let nextSeq = 0;
     try {
       const last = await db.queue.orderBy("seq").last();
-      baseSeq = typeof last?.seq === "number" ? last.seq + 1 : 0;
+      nextSeq = typeof last?.seq === "number" ? last.seq + 1 : 0;
     } catch {
-      baseSeq = 0;
+      nextSeq = 0;
+    }
+
+    // Queue ids already in the project; consensus copies are stored as `<id>#<run>` and always
+    // include run 0, split samples only keep their plain id on the source record.
+    const existingIds = new Set([
+      ...((await db.queue.where("projectId").equals(importProjectId).primaryKeys()) as string[]),
+      ...((await db.records.where("projectId").equals(importProjectId).primaryKeys()) as string[])
+    ]);
+    const importedIds = new Set<string>();
+    const isQueued = (queueId: string) =>
+      importedIds.has(queueId) || existingIds.has(queueId) || existingIds.has(`${queueId}#0`);
+    const duplicatePolicy = settings.duplicateIdPolicy;
+    const dedupeContent = settings.dedupeContent;
+    const contentHashes = new Set<string>();
+    if (dedupeContent) {
+      const keys = await db.records
+        .where("[projectId+contentHash]")
+        .between([importProjectId, Dexie.minKey], [importProjectId, Dexie.maxKey])
+        .keys();
+      keys.forEach((key) => contentHashes.add(String((key as unknown[])[1])));
     }
 
-    const totalEligible = candidate.eligibleCount;
-    let targetEligible = 0;
+    const totalEligible = candidate.matchedCount;
+    if (totalEligible <= 0) {
+      setImporting(false);
+      appendLog({
+        level: "info",
+        message: candidate.selection.filters.length
+          ? "No records match the import filters. Nothing queued."
+          : "No non-empty lines found. Nothing queued."
+      });
+      return;
+    }
+    const targets = planStrata(candidate.strata, samplePercent, stratumCap);
+    const random = createRandom(settings.sampleSeed);
+    const sample = createStratifiedSampler(candidate.strata, targets, random);
     if (shouldSample) {
-      if (totalEligible <= 0) {
-        setImporting(false);
-        appendLog({ level: "info", message: "No non-empty lines found. Nothing queued." });
-        return;
-      }
-      targetEligible = Math.round((totalEligible * samplePercent) / 100);
-      targetEligible = Math.min(totalEligible, Math.max(1, targetEligible));
+      const targetEligible = Object.values(targets).reduce((sum, n) => sum + n, 0);
+      const capRule = stratifyKey
+        ? `at most ${stratumCap} per ${stratifyKey} value`
+        : `at most ${stratumCap}`;
+      const rules = [
+        samplePercent < 100 ? `${samplePercent}%` : null,
+        stratumCap > 0 ? capRule : null,
+        settings.sampleSeed ? `seed "${settings.sampleSeed}"` : null
+      ].filter(Boolean);
+      appendLog({
+        level: "info",
+        message: `Sampling (${rules.join(", ")}): will enqueue ${targetEligible}/${totalEligible} line(s).`
+      });
+    }
+    if (stratifyKey) {
       appendLog({
         level: "info",
-        message: `Sampling ${samplePercent}%: will enqueue ${targetEligible}/${totalEligible} line(s).`
+        message: `By ${stratifyKey}: ${formatStrata(candidate.strata, targets)}.`
       });
     }
 
-    const worker = new Worker(new URL("../workers/stream-jsonl.ts", import.meta.url), {
+    const worker = new Worker(new URL("../workers/stream-import.ts", import.meta.url), {
       type: "module"
     });
     let buffer: QueueItem[] = [];
+    let recordBuffer: SourceRecord[] = [];
     let totalQueued = 0;
     let seen = 0;
     let skipped = 0;
@@ -474,14 +933,26 @@ export function App() {
     let created = 0;
     let sampledOut = 0;
     let sampledIn = 0;
+    let duplicateIds = 0;
+    let duplicateContent = 0;
+    // Room left for one sample once the prompt text is in (0 = no budget).
+    const itemBudget =
+      settings.maxPromptChars > 0
+        ? Math.max(1, settings.maxPromptChars - promptOverhead(prompt, itemTemplate))
+        : 0;
+    let splitSamples = 0;
+    let oversizedSamples = 0;
     let flushing = false;
     const flush = async () => {
       if (flushing) return;
       flushing = true;
       while (buffer.length > 0) {
         const chunk = buffer.splice(0, buffer.length);
+        const records = recordBuffer.splice(0, recordBuffer.length);
         const count = chunk.length;
         try {
+          // Records first, so a batch claimed right after the flush can already use them.
+          await db.records.bulkPut(records);
           await db.queue.bulkPut(chunk);
           totalQueued += count;
           setImported((c) => c + count);
@@ -512,17 +983,7 @@ export function App() {
           }
           seen += 1;
           if (shouldSample) {
-            const need = targetEligible - sampledIn;
-            const remainingIncludingCurrent = totalEligible - seen + 1;
-            let take = false;
-            if (need <= 0) {
-              take = false;
-            } else if (need >= remainingIncludingCurrent) {
-              take = true;
-            } else {
-              take = Math.random() < need / remainingIncludingCurrent;
-            }
-            if (!take) {
+            if (!sample(String(data.stratum ?? ""))) {
               sampledOut += 1;
               return;
             }
@@ -530,16 +991,43 @@ export function App() {
           }
           const now = Date.now();
           const extracted = extractSampleText(rawLine, inputKeys);
-          const id: string = extracted.sampleId?.trim() || generateId(now);
-          const normalizedSample: Sample = { id, text: extracted.text };
+          const contentHash = hashText(extracted.text);
+          if (dedupeContent && contentHashes.has(contentHash)) {
+            duplicateContent += 1;
+            return;
+          }
+          let sampleId: string = extracted.sampleId?.trim() || generateId(now);
+          let queueId = makeQueueId(importProjectId, sampleId);
+          if (isQueued(queueId)) {
+            duplicateIds += 1;
+            if (duplicatePolicy === "skip") return;
+            if (duplicatePolicy === "suffix") {
+              let n = 2;
+              while (isQueued(makeQueueId(importProjectId, `${sampleId}_${n}`))) n += 1;
+              sampleId = `${sampleId}_${n}`;
+              queueId = makeQueueId(importProjectId, sampleId);
+            }
+          }
+          importedIds.add(queueId);
+          contentHashes.add(contentHash);
+          const normalizedSample: Sample = { id: sampleId, text: extracted.text };
           if (extracted.source !== "raw") {
             normalizedSample.meta = { source: extracted.source };
           }
-          const promptPayload: Record<string, unknown> = { id, ...extracted.payload };
+          const promptPayload: Record<string, unknown> = { id: sampleId, ...extracted.payload };
           const promptForSample = JSON.stringify(promptPayload);
-          buffer.push({
-            id,
-            seq: baseSeq + (seen - 1),
+          recordBuffer.push({
+            id: queueId,
+            projectId: importProjectId,
+            sampleId,
+            data: extracted.record,
+            contentHash,
+            createdAt: now
+          });
+          const base: QueueItem = {
+            id: queueId,
+            projectId: importProjectId,
+            seq: 0,
             prompt: promptForSample,
             sample: normalizedSample,
             status: "pending",
@@ -548,7 +1036,45 @@ export function App() {
             lastError: null,
             createdAt: now,
             updatedAt: now
-          });
+          };
+          let units = [base];
+          const size = itemBudget ? measureItem(base, itemTemplate) : 0;
+          if (size > itemBudget) {
+            const parts =
+              settings.oversizedSamples === "chunk"
+                ? splitLongItem(base, itemBudget, settings.chunkOverlapChars, itemTemplate)
+                : null;
+            if (parts) {
+              units = parts;
+              splitSamples += 1;
+            } else {
+              oversizedSamples += 1;
+              units = [
+                {
+                  ...base,
+                  status: "error",
+                  oversized: true,
+                  lastError: `Sample takes ${size} characters; the prompt budget leaves ${itemBudget}`
+                }
+              ];
+            }
+          }
+          for (const unit of units) {
+            if (consensusRuns) {
+              for (const { run, target } of consensusRuns) {
+                buffer.push({
+                  ...unit,
+                  id: `${unit.id}#${run}`,
+                  seq: nextSeq++,
+                  target,
+                  run,
+                  runCount: consensusRuns.length
+                });
+              }
+            } else {
+              buffer.push({ ...unit, seq: nextSeq++ });
+            }
+          }
           created += 1;
           if (buffer.length >= 200) await flush();
         } catch (err: any) {
@@ -563,6 +1089,24 @@ export function App() {
       } else if (data.type === "done") {
         await flush();
         setImporting(false);
+        if (splitSamples || oversizedSamples) {
+          appendLog({
+            level: oversizedSamples ? "error" : "info",
+            message: `Prompt budget: ${splitSamples} long sample(s) split into parts, ${oversizedSamples} too long to send (queued as errors).`
+          });
+        }
+        if (data.filtered) {
+          appendLog({ level: "info", message: `Filtered out ${data.filtered} record(s).` });
+        }
+        if (duplicateIds || duplicateContent) {
+          const idAction = { skip: "skipped", overwrite: "overwritten", suffix: "renamed" }[
+            duplicatePolicy
+          ];
+          appendLog({
+            level: "info",
+            message: `Duplicates: ${duplicateIds} already-queued id(s) ${idAction}, ${duplicateContent} repeated input text(s) skipped.`
+          });
+        }
         appendLog({
           level: "info",
           message: shouldSample
@@ -573,9 +1117,34 @@ export function App() {
       }
     };
 
-    worker.postMessage({ file, isGzip, mode: "stream" });
+    worker.postMessage({ file, isGzip, mode: "stream", selection: candidate.selection });
+  }
+
+  function updateImportFilter(index: number, patch: Partial<ImportFilter>) {
+    setSettings((s) => ({
+      ...s,
+      importFilters: s.importFilters.map((f, i) => (i === index ? { ...f, ...patch } : f))
+    }));
   }
 
+  const schemaError = parseSchemaText(schemaText).error;
+  const activeProject = projects.find((p) => p.id === projectId);
+  const activeVersion = promptVersions.find((v) => v.id === activeVersionId);
+  // Also true before the first version is saved.
+  const promptDirty =
+    !activeVersion ||
+    activeVersion.prompt !== prompt ||
+    activeVersion.itemTemplate !== itemTemplate ||
+    activeVersion.schema !== schemaText;
+  const exportBaseName = buildExportName(lastFileName || activeProject?.name || "").replace(
+    /\.jsonl$/i,
+    ""
+  );
+  const runningElsewhere =
+    !running && stats.runningProjectId && stats.runningProjectId !== projectId
+      ? projects.find((p) => p.id === stats.runningProjectId)?.name ?? "another project"
+      : null;
+
   const handleFileInput = (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -593,11 +1162,38 @@ export function App() {
             <h1>LLM Labeler</h1>
             <div className="status">
               <span className={`dot ${running ? "on" : "off"}`} />
-              {running ? "Running" : "Paused"}
+              {running ? "Running" : runningElsewhere ? `Running in ${runningElsewhere}` : "Paused"}
             </div>
           </div>
           <p>Each batch sends your prompt plus samples.</p>
         </div>
+        <div className="project-switcher">
+          <select
+            value={projectId}
+            onChange={(e) => switchProject(e.target.value)}
+            disabled={importing || preparingImport || Boolean(importCandidate)}
+            aria-label="Project"
+          >
+            {projects.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <button type="button" onClick={handleCreateProject} disabled={importing}>
+            New
+          </button>
+          <button type="button" onClick={handleRenameProject}>
+            Rename
+          </button>
+          <button
+            type="button"
+            onClick={handleDeleteProject}
+            disabled={projects.length <= 1 || importing}
+          >
+            Delete
+          </button>
+        </div>
       </header>
 
       <section className="card">
@@ -618,8 +1214,56 @@ export function App() {
           <label className="field">
             <span>Detected target</span>
             <input type="text" value={detectedTarget} readOnly />
-            <small>Auto-detect from current tab URL (Gemini / ChatGPT)</small>
+            <small>Auto-detect from current tab URL ({SITE_LABELS.join(" / ")})</small>
           </label>
+          <label className="field">
+            <span>Send batches to</span>
+            <select
+              value={settings.dispatchMode}
+              onChange={(e) =>
+                setSettings((s) => ({ ...s, dispatchMode: e.target.value as SettingsDoc["dispatchMode"] }))
+              }
+            >
+              <option value="web">Chat tabs</option>
+              <option value="api">API (OpenAI-compatible)</option>
+            </select>
+            <small>
+              The API receives the same prompts as a chat tab. Items pinned to a site by "Every site" consensus
+              stay with the tabs.
+            </small>
+          </label>
+          {settings.dispatchMode === "api" && (
+            <>
+              <label className="field">
+                <span>API base URL</span>
+                <input
+                  type="text"
+                  value={settings.apiBaseUrl}
+                  placeholder="https://api.openai.com/v1"
+                  onChange={(e) => setSettings((s) => ({ ...s, apiBaseUrl: e.target.value }))}
+                />
+                <small>POSTs to /chat/completions under this URL; a local server works too</small>
+              </label>
+              <label className="field">
+                <span>API model</span>
+                <input
+                  type="text"
+                  value={settings.apiModel}
+                  onChange={(e) => setSettings((s) => ({ ...s, apiModel: e.target.value }))}
+                />
+              </label>
+              <label className="field">
+                <span>API key</span>
+                <input
+                  type="password"
+                  value={settings.apiKey}
+                  autoComplete="off"
+                  onChange={(e) => setSettings((s) => ({ ...s, apiKey: e.target.value }))}
+                />
+                <small>Stored only in this extension's local database; leave empty for servers without auth</small>
+              </label>
+            </>
+          )}
           <label className="field">
             <span>Wait after reply (seconds)</span>
             <input
@@ -648,7 +1292,103 @@ export function App() {
                 }))
               }
             />
-            <small>Number of samples per prompt</small>
+            <small>Number of samples per prompt (the starting size when adaptive)</small>
+          </label>
+          <label className="field">
+            <span>Adaptive batch size</span>
+            <div className="inline-inputs">
+              <select
+                value={settings.adaptiveBatchSize ? "on" : "off"}
+                onChange={(e) =>
+                  setSettings((s) => ({ ...s, adaptiveBatchSize: e.target.value === "on" }))
+                }
+              >
+                <option value="off">Off</option>
+                <option value="on">On</option>
+              </select>
+              <input
+                type="number"
+                min={1}
+                title="Minimum batch size"
+                value={settings.minBatchSize}
+                disabled={!settings.adaptiveBatchSize}
+                onChange={(e) =>
+                  setSettings((s) => ({ ...s, minBatchSize: Math.max(1, Number(e.target.value) || 1) }))
+                }
+              />
+              <input
+                type="number"
+                min={1}
+                title="Maximum batch size"
+                value={settings.maxBatchSize}
+                disabled={!settings.adaptiveBatchSize}
+                onChange={(e) =>
+                  setSettings((s) => ({ ...s, maxBatchSize: Math.max(1, Number(e.target.value) || 1) }))
+                }
+              />
+            </div>
+            <small>
+              Min / max. Halves the batch when a reply is truncated or returns the wrong number of
+              items, and grows it again after 3 clean batches in a row.
+            </small>
+          </label>
+          <label className="field">
+            <span>Max prompt characters</span>
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              value={settings.maxPromptChars}
+              onChange={(e) =>
+                setSettings((s) => ({
+                  ...s,
+                  maxPromptChars: Math.max(0, Math.floor(Number(e.target.value) || 0))
+                }))
+              }
+            />
+            <small>
+              0 = no limit. Batches take items in queue order until the next one would pass this
+              many characters, so a few long samples make a smaller batch instead of a prompt the
+              site cuts off.
+            </small>
+          </label>
+          <label className="field">
+            <span>Too-long samples</span>
+            <div className="inline-inputs">
+              <select
+                value={settings.oversizedSamples}
+                onChange={(e) =>
+                  setSettings((s) => ({
+                    ...s,
+                    oversizedSamples: e.target.value as OversizedSamplePolicy
+                  }))
+                }
+              >
+                <option value="flag">Queue as error</option>
+                <option value="chunk">Split into parts</option>
+              </select>
+              <input
+                type="number"
+                min={0}
+                step={50}
+                title="Characters repeated between consecutive parts"
+                value={settings.chunkOverlapChars}
+                disabled={settings.oversizedSamples !== "chunk"}
+                onChange={(e) =>
+                  setSettings((s) => ({
+                    ...s,
+                    chunkOverlapChars: Math.max(0, Math.floor(Number(e.target.value) || 0))
+                  }))
+                }
+              />
+            </div>
+            <small>
+              Applies on import, for samples that alone exceed the max prompt characters. Samples
+              queued as errors are not requeued by <b>Retry errors</b>. Parts
+              (with the given overlap) are sent as <code>&lt;id&gt;~1</code>,{" "}
+              <code>&lt;id&gt;~2</code>, ... and their outputs are merged into one result per
+              sample once every part is done.
+            </small>
           </label>
           <label className="field">
             <span>Sampling (%)</span>
@@ -670,6 +1410,173 @@ export function App() {
             />
             <small>Applies on import. 100 keeps all lines; lower values randomly sample.</small>
           </label>
+          <label className="field">
+            <span>Duplicate ids</span>
+            <select
+              value={settings.duplicateIdPolicy}
+              onChange={(e) =>
+                setSettings((s) => ({
+                  ...s,
+                  duplicateIdPolicy: e.target.value as DuplicateIdPolicy
+                }))
+              }
+            >
+              <option value="skip">Skip (keep the queued item)</option>
+              <option value="overwrite">Overwrite (re-queue as pending)</option>
+              <option value="suffix">Import under a new id (id_2, id_3, ...)</option>
+            </select>
+            <small>
+              Applies on import, to ids already in this project or repeated in the file. Skip lets a
+              re-import after a crash pick up where it stopped.
+            </small>
+          </label>
+          <label className="field">
+            <span>Duplicate content</span>
+            <select
+              value={settings.dedupeContent ? "skip" : "keep"}
+              onChange={(e) =>
+                setSettings((s) => ({ ...s, dedupeContent: e.target.value === "skip" }))
+              }
+            >
+              <option value="keep">Keep</option>
+              <option value="skip">Skip repeated input text</option>
+            </select>
+            <small>
+              Applies on import. Compares each sample's input text with earlier ones in the file
+              and in this project.
+            </small>
+          </label>
+          <label className="field">
+            <span>Sampling seed</span>
+            <input
+              type="text"
+              value={settings.sampleSeed}
+              placeholder="random"
+              onChange={(e) => setSettings((s) => ({ ...s, sampleSeed: e.target.value }))}
+            />
+            <small>
+              Empty draws a new sample on every import; with a seed, the same file and settings
+              always give the same sample.
+            </small>
+          </label>
+          <label className="field">
+            <span>Stratify by</span>
+            <div className="inline-inputs">
+              <input
+                type="text"
+                title="Key (dotted paths allowed)"
+                value={settings.stratifyKey}
+                placeholder="language"
+                onChange={(e) => setSettings((s) => ({ ...s, stratifyKey: e.target.value }))}
+              />
+              <input
+                type="number"
+                min={0}
+                step={1}
+                title="Max rows per value (0 = no cap)"
+                value={settings.stratumCap}
+                onChange={(e) =>
+                  setSettings((s) => ({
+                    ...s,
+                    stratumCap: Math.max(0, Math.floor(Number(e.target.value) || 0))
+                  }))
+                }
+              />
+            </div>
+            <small>
+              Key / max rows per value (0 = no cap). Applies on import: sampling is done separately
+              for each value of the key, so small groups keep their share and large ones are capped.
+            </small>
+          </label>
+          <div className="field">
+            <span>Import filters</span>
+            {settings.importFilters.map((filter, index) => (
+              <div key={index} className="inline-inputs">
+                <input
+                  type="text"
+                  placeholder="key"
+                  value={filter.key}
+                  onChange={(e) => updateImportFilter(index, { key: e.target.value })}
+                />
+                <select
+                  value={filter.op}
+                  onChange={(e) =>
+                    updateImportFilter(index, { op: e.target.value as ImportFilterOp })
+                  }
+                >
+                  <option value="equals">equals</option>
+                  <option value="regex">matches regex</option>
+                  <option value="length">length between</option>
+                  <option value="exists">exists</option>
+                </select>
+                {(filter.op === "equals" || filter.op === "regex") && (
+                  <input
+                    type="text"
+                    placeholder={filter.op === "regex" ? "pattern" : "value"}
+                    value={filter.value}
+                    onChange={(e) => updateImportFilter(index, { value: e.target.value })}
+                  />
+                )}
+                {filter.op === "length" && (
+                  <>
+                    <input
+                      type="number"
+                      min={0}
+                      title="Minimum length"
+                      value={filter.minLength}
+                      onChange={(e) =>
+                        updateImportFilter(index, {
+                          minLength: Math.max(0, Number(e.target.value) || 0)
+                        })
+                      }
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      title="Maximum length (0 = no maximum)"
+                      value={filter.maxLength}
+                      onChange={(e) =>
+                        updateImportFilter(index, {
+                          maxLength: Math.max(0, Number(e.target.value) || 0)
+                        })
+                      }
+                    />
+                  </>
+                )}
+                <button
+                  type="button"
+                  onClick={() =>
+                    setSettings((s) => ({
+                      ...s,
+                      importFilters: s.importFilters.filter((_, i) => i !== index)
+                    }))
+                  }
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <div className="actions">
+              <button
+                type="button"
+                onClick={() =>
+                  setSettings((s) => ({
+                    ...s,
+                    importFilters: [
+                      ...s.importFilters,
+                      { key: "", op: "equals", value: "", minLength: 0, maxLength: 0 }
+                    ]
+                  }))
+                }
+              >
+                Add filter
+              </button>
+            </div>
+            <small>
+              Applies on import. Only rows meeting every filter are counted, sampled and queued;
+              values are compared as text (objects as JSON).
+            </small>
+          </div>
           <label className="field">
             <span>Output count rule</span>
             <select
@@ -692,13 +1599,497 @@ export function App() {
               no errors are raised for count mismatch.
             </small>
           </label>
+          <label className="field">
+            <span>Schema re-ask rounds</span>
+            <input
+              type="number"
+              min={0}
+              max={5}
+              value={settings.schemaRepairRounds}
+              onChange={(e) =>
+                setSettings((s) => ({
+                  ...s,
+                  schemaRepairRounds: Math.min(5, Math.max(0, Number(e.target.value) || 0))
+                }))
+              }
+            />
+            <small>
+              When an output schema is set, entries that fail it are listed back to the model in the
+              same chat and only those items are requested again. 0 disables the follow-up.
+            </small>
+          </label>
+          <label className="field">
+            <span>New chat after</span>
+            <div className="inline-inputs">
+              <input
+                type="number"
+                min={0}
+                title="Batches per conversation (0 = no limit)"
+                value={settings.newChatEveryBatches}
+                onChange={(e) =>
+                  setSettings((s) => ({
+                    ...s,
+                    newChatEveryBatches: Math.max(0, Math.floor(Number(e.target.value) || 0))
+                  }))
+                }
+              />
+              <input
+                type="number"
+                min={0}
+                step={10000}
+                title="Characters per conversation (0 = no limit)"
+                value={settings.newChatMaxChars}
+                onChange={(e) =>
+                  setSettings((s) => ({
+                    ...s,
+                    newChatMaxChars: Math.max(0, Math.floor(Number(e.target.value) || 0))
+                  }))
+                }
+              />
+            </div>
+            <small>
+              Batches / characters (prompts plus replies). Each tab starts a fresh chat once either
+              limit is reached, so context does not pile up over a long run. 0 / 0 keeps typing into
+              the open chat; API requests then carry no history.
+            </small>
+          </label>
+          <label className="field">
+            <span>Rules prompt</span>
+            <select
+              value={settings.rulesOncePerChat ? "once" : "every"}
+              onChange={(e) => setSettings((s) => ({ ...s, rulesOncePerChat: e.target.value === "once" }))}
+            >
+              <option value="every">With every batch</option>
+              <option value="once">Once per chat</option>
+            </select>
+            <small>
+              Once per chat sends the full prompt as the first message of each conversation; later
+              batches only list the samples and ask for the same format.
+            </small>
+          </label>
+          <label className="field">
+            <span>Parallel tabs / requests</span>
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={settings.maxParallelTabs}
+              onChange={(e) =>
+                setSettings((s) => ({
+                  ...s,
+                  maxParallelTabs: Math.min(10, Math.max(1, Number(e.target.value) || 1))
+                }))
+              }
+            />
+            <small>
+              Maximum number of open chat tabs ({SITE_LABELS.join(" / ")}) that each claim and run
+              their own batch.
+              1 uses only the detected tab. A tab that fails 3 batches in a row is skipped until
+              the next start.
+            </small>
+          </label>
+          <label className="field">
+            <span>Consensus labeling</span>
+            <select
+              value={settings.consensusMode}
+              onChange={(e) =>
+                setSettings((s) => ({ ...s, consensusMode: e.target.value as ConsensusMode }))
+              }
+            >
+              <option value="off">Off (one reply per sample)</option>
+              <option value="sites" disabled={settings.dispatchMode === "api"}>
+                Every site ({SITE_LABELS.join(" + ")})
+              </option>
+              <option value="repeat">Repeat N times</option>
+            </select>
+            <small>
+              Applies on import. Each sample is queued once per run and every reply is stored as
+              its own result. Every site needs one tab open per supported site and is not
+              available with API dispatch.
+            </small>
+          </label>
+          {settings.consensusMode === "repeat" && (
+            <label className="field">
+              <span>Consensus runs</span>
+              <input
+                type="number"
+                min={2}
+                max={10}
+                value={settings.consensusRuns}
+                onChange={(e) =>
+                  setSettings((s) => ({
+                    ...s,
+                    consensusRuns: Math.min(10, Math.max(2, Number(e.target.value) || 2))
+                  }))
+                }
+              />
+              <small>How many times each sample is labeled.</small>
+            </label>
+          )}
+          {settings.consensusMode === "repeat" && settings.dispatchMode !== "api" && (
+            <label className="field">
+              <span>Repeat runs on</span>
+              <select
+                value={settings.consensusRepeatSite}
+                onChange={(e) =>
+                  setSettings((s) => ({ ...s, consensusRepeatSite: e.target.value as WebSite }))
+                }
+              >
+                {SITE_IDS.map((id) => (
+                  <option key={id} value={id}>
+                    {SITES[id].label}
+                  </option>
+                ))}
+              </select>
+              <small>
+                Applies on import. Every run of a sample goes to this site, each run in a chat of its
+                own so it does not see the other runs' answers.
+              </small>
+            </label>
+          )}
+          {settings.consensusMode !== "off" && (
+            <label className="field">
+              <span>Consensus field</span>
+              <input
+                type="text"
+                value={settings.consensusField}
+                onChange={(e) =>
+                  setSettings((s) => ({ ...s, consensusField: e.target.value }))
+                }
+              />
+              <small>
+                Parsed output field compared across runs (dotted paths allowed, e.g.{" "}
+                <code>label</code>). Labels are compared case-insensitively.
+              </small>
+            </label>
+          )}
+          <div className="field">
+            <span>Prompt experiment</span>
+            {promptVersions.length < 2 ? (
+              <small>Save at least two prompt versions to compare them.</small>
+            ) : (
+              <>
+                <div className="key-list">
+                  {promptVersions.map((v) => (
+                    <label key={v.id} className="key-option">
+                      <input
+                        type="checkbox"
+                        checked={settings.experimentVersionIds.includes(v.id)}
+                        onChange={(e) => {
+                          const checked = e.target.checked;
+                          setSettings((s) => ({
+                            ...s,
+                            experimentVersionIds: checked
+                              ? [...s.experimentVersionIds, v.id]
+                              : s.experimentVersionIds.filter((id) => id !== v.id)
+                          }));
+                        }}
+                      />
+                      <span>{versionLabel(v)}</span>
+                    </label>
+                  ))}
+                </div>
+                <div className="inline-inputs">
+                  <input
+                    type="number"
+                    min={1}
+                    max={100}
+                    title="Share of samples per version (%)"
+                    value={settings.experimentPercent}
+                    onChange={(e) =>
+                      setSettings((s) => ({
+                        ...s,
+                        experimentPercent: Math.min(100, Math.max(1, Number(e.target.value) || 1))
+                      }))
+                    }
+                  />
+                  <span className="muted">% of samples per version</span>
+                </div>
+              </>
+            )}
+            <small>
+              While versions are checked, Start sends each of them its own share of the pending
+              samples (the same samples every time, chosen by id) and leaves the rest queued. Uncheck
+              all to label the rest with the active version.
+            </small>
+          </div>
+          <label className="field">
+            <span>Gold label</span>
+            <div className="inline-inputs">
+              <input
+                type="text"
+                value={settings.goldKey}
+                placeholder="key in the imported data"
+                onChange={(e) => setSettings((s) => ({ ...s, goldKey: e.target.value }))}
+              />
+              <input
+                type="text"
+                value={settings.goldField}
+                placeholder="output_text"
+                onChange={(e) => setSettings((s) => ({ ...s, goldField: e.target.value }))}
+              />
+            </div>
+            <small>
+              Reference label in the imported lines (dotted paths allowed) and the parsed output
+              field compared with it, for the Evaluation card and experiment accuracy. Empty key = no
+              gold labels.
+            </small>
+          </label>
+          <label className="field">
+            <span>Review below confidence</span>
+            <div className="inline-inputs">
+              <input
+                type="text"
+                value={settings.reviewConfidenceField}
+                placeholder="confidence"
+                onChange={(e) =>
+                  setSettings((s) => ({ ...s, reviewConfidenceField: e.target.value }))
+                }
+              />
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={settings.reviewConfidenceThreshold}
+                onChange={(e) =>
+                  setSettings((s) => ({
+                    ...s,
+                    reviewConfidenceThreshold: Math.max(0, Number(e.target.value) || 0)
+                  }))
+                }
+              />
+            </div>
+            <small>
+              Results whose parsed confidence field is below this value are flagged for review.
+              Parse fallbacks, schema failures and consensus disagreements are always flagged. 0
+              disables the confidence check.
+            </small>
+          </label>
+          <label className="field">
+            <span>Automatic retries</span>
+            <div className="inline-inputs">
+              <input
+                type="number"
+                min={1}
+                max={20}
+                title="Maximum attempts per item"
+                value={settings.retryMaxAttempts}
+                onChange={(e) =>
+                  setSettings((s) => ({
+                    ...s,
+                    retryMaxAttempts: Math.min(20, Math.max(1, Number(e.target.value) || 1))
+                  }))
+                }
+              />
+              <input
+                type="number"
+                min={0}
+                step={5}
+                title="Delay before the first retry (seconds)"
+                value={settings.retryBaseDelayMs / 1000}
+                onChange={(e) =>
+                  setSettings((s) => ({
+                    ...s,
+                    retryBaseDelayMs: Math.max(0, Number(e.target.value) || 0) * 1000
+                  }))
+                }
+              />
+            </div>
+            <small>
+              Max attempts / first delay (s). Failed items of the checked kinds are requeued with a
+              delay that doubles each time (with jitter); after the last attempt they are marked
+              dead. Other errors wait for <b>Retry errors</b>.
+            </small>
+          </label>
+          <label className="field">
+            <span>Site cooldown (min)</span>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={settings.siteCooldownMs / 60000}
+              onChange={(e) =>
+                setSettings((s) => ({
+                  ...s,
+                  siteCooldownMs: Math.max(0, Number(e.target.value) || 0) * 60000
+                }))
+              }
+            />
+            <small>
+              When a tab shows a usage limit or captcha, its batch goes back to the queue and the
+              tab rests this long while tabs of the other site carry on (error banners rest at most
+              1 minute). Start again after solving a captcha to resume at once.
+            </small>
+          </label>
+          <div className="field">
+            <span>Retry on</span>
+            <div className="key-list">
+              {RETRY_ERROR_CLASSES.map((errorClass) => (
+                <label key={errorClass} className="key-option">
+                  <input
+                    type="checkbox"
+                    checked={settings.retryErrorClasses.includes(errorClass)}
+                    onChange={(e) => {
+                      const checked = e.target.checked;
+                      setSettings((s) => ({
+                        ...s,
+                        retryErrorClasses: checked
+                          ? [...s.retryErrorClasses.filter((c) => c !== errorClass), errorClass]
+                          : s.retryErrorClasses.filter((c) => c !== errorClass)
+                      }));
+                    }}
+                  />
+                  <span>{RETRY_CLASS_LABELS[errorClass]}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="field">
+            <span>Export</span>
+            <div className="inline-inputs">
+              <select
+                title="File format"
+                value={settings.exportFormat}
+                onChange={(e) =>
+                  setSettings((s) => ({ ...s, exportFormat: e.target.value as ExportFormat }))
+                }
+              >
+                <option value="jsonl">JSONL</option>
+                <option value="flat_jsonl">Flat JSONL</option>
+                <option value="csv">CSV</option>
+                <option value="tsv">TSV</option>
+              </select>
+              <select
+                title="Results to include"
+                value={settings.exportRows}
+                onChange={(e) =>
+                  setSettings((s) => ({ ...s, exportRows: e.target.value as ExportRowFilter }))
+                }
+              >
+                <option value="all">All results</option>
+                <option value="ok">OK only</option>
+                <option value="error">Errors only</option>
+              </select>
+              <select
+                title="Prompt version"
+                value={settings.exportPromptVersionId}
+                onChange={(e) =>
+                  setSettings((s) => ({ ...s, exportPromptVersionId: e.target.value }))
+                }
+              >
+                <option value="">Any prompt version</option>
+                {promptVersions.map((v) => (
+                  <option key={v.id} value={v.id}>
+                    {versionLabel(v)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="key-list">
+              <label className="key-option">
+                <input
+                  type="checkbox"
+                  checked={settings.exportJoinInput}
+                  onChange={(e) => {
+                    const checked = e.target.checked;
+                    setSettings((s) => ({ ...s, exportJoinInput: checked }));
+                  }}
+                />
+                <span>Include input fields</span>
+              </label>
+              <label className="key-option">
+                <input
+                  type="checkbox"
+                  checked={settings.exportGzip}
+                  onChange={(e) => {
+                    const checked = e.target.checked;
+                    setSettings((s) => ({ ...s, exportGzip: checked }));
+                  }}
+                />
+                <span>Gzip</span>
+              </label>
+            </div>
+            <small>
+              Flat JSONL, CSV and TSV spread <code>parsed</code>, <code>review</code> and{" "}
+              <code>input</code> fields into dotted columns (e.g. <code>parsed.output_text</code>).
+              Input fields join each result to its imported sample. Picking a prompt version keeps
+              only results labeled with it.
+            </small>
+          </div>
         </div>
         <div className="stats">
           <Stat label="Pending" value={stats.pending} />
           <Stat label="In-flight" value={stats.inflight} />
           <Stat label="Done" value={stats.done} />
           <Stat label="Error" value={stats.error} />
+          <Stat label="Dead" value={stats.dead} />
+          {stats.batchSizing?.adaptive && <Stat label="Batch size" value={stats.batchSizing.size} />}
+          {stats.metrics?.itemsPerMinute != null && (
+            <Stat label="Items / min" value={stats.metrics.itemsPerMinute.toFixed(1)} />
+          )}
+          {stats.metrics?.etaMs != null && <Stat label="ETA" value={formatDuration(stats.metrics.etaMs)} />}
         </div>
+        {stats.batchSizing?.adaptive && stats.batchSizing.reason && (
+          <p className="muted">
+            Batch size {stats.batchSizing.size}: {stats.batchSizing.reason}
+            {stats.batchSizing.updatedAt ? ` (${formatTime(stats.batchSizing.updatedAt)})` : ""}
+          </p>
+        )}
+        {Boolean(stats.workers?.length) && (
+          <div className="preview-table worker-table">
+            <div className="preview-row worker-row preview-head">
+              <div className="preview-cell">Tab</div>
+              <div className="preview-cell">State</div>
+              <div className="preview-cell meta">Batches</div>
+              <div className="preview-cell meta">Items</div>
+              <div className="preview-cell">Last error</div>
+            </div>
+            {stats.workers!.map((w) => (
+              <div key={w.key} className="preview-row worker-row">
+                <div className="preview-cell">
+                  {targetLabel(w.target)} {w.tabId != null ? `#${w.tabId}` : w.key}
+                </div>
+                <div className={`preview-cell worker-state ${w.state}`}>
+                  {w.state}
+                  {w.state === "cooldown" && w.cooldownUntil
+                    ? ` until ${new Date(w.cooldownUntil).toLocaleTimeString()}`
+                    : ""}
+                </div>
+                <div className="preview-cell meta">
+                  {w.batches}
+                  {w.conversationBatches ? ` (${w.conversationBatches} in chat)` : ""}
+                </div>
+                <div className="preview-cell meta">{w.items}</div>
+                <div className="preview-cell muted">{w.lastError || "—"}</div>
+              </div>
+            ))}
+          </div>
+        )}
+        {Boolean(stats.metrics?.latency.length) && (
+          <div className="preview-table worker-table">
+            <div className="preview-row latency-row preview-head">
+              <div className="preview-cell">Target</div>
+              <div className="preview-cell meta">Batches</div>
+              <div className="preview-cell meta">p50</div>
+              <div className="preview-cell meta">p95</div>
+              <div className="preview-cell meta">First text</div>
+              <div className="preview-cell meta">Tokens in / out</div>
+            </div>
+            {stats.metrics!.latency.map((l) => (
+              <div key={l.target} className="preview-row latency-row">
+                <div className="preview-cell">{targetLabel(l.target)}</div>
+                <div className="preview-cell meta">{l.dispatches}</div>
+                <div className="preview-cell meta">{formatDuration(l.p50Ms)}</div>
+                <div className="preview-cell meta">{formatDuration(l.p95Ms)}</div>
+                <div className="preview-cell meta">{formatDuration(l.firstTextP50Ms)}</div>
+                <div className="preview-cell meta">
+                  ~{l.avgInputTokens} / ~{l.avgOutputTokens}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </section>
 
       <section className="card">
@@ -719,13 +2110,17 @@ export function App() {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".jsonl,.gz,.jsonl.gz"
+              accept=".jsonl,.ndjson,.json,.csv,.tsv,.txt,.gz"
               onChange={handleFileInput}
               disabled={importing || preparingImport || Boolean(importCandidate)}
               style={{ display: "none" }}
             />
           </div>
-          <small>Supports jsonl / jsonl.gz (streamed + gunzip)</small>
+          <small>
+            Supports JSONL, CSV / TSV (header row), JSON arrays (or a <code>rows</code> /{" "}
+            <code>data</code> list, e.g. Hugging Face exports) and plain text with one sample per line,
+            optionally gzipped. The format is taken from the extension and checked against the content.
+          </small>
           {importing && <div className="pill">Importing... queued {imported}</div>}
           {preparingImport && <div className="pill">Analyzing...</div>}
           {importCandidate && (
@@ -734,9 +2129,21 @@ export function App() {
                 <div className="key-panel-title">Choose keys to include</div>
                 <div className="muted">
                   Selected {importKeySelection.length} / {importCandidate.keys.length} (from{" "}
-                  {importCandidate.eligibleCount} line(s))
+                  {importCandidate.selection.filters.length
+                    ? `${importCandidate.matchedCount} of ${importCandidate.eligibleCount} line(s) matching the filters`
+                    : `${importCandidate.eligibleCount} line(s)`}
+                  )
                 </div>
               </div>
+              {importCandidate.selection.stratifyKey && (
+                <small>
+                  By {importCandidate.selection.stratifyKey} (to import / matching):{" "}
+                  {formatStrata(
+                    importCandidate.strata,
+                    planStrata(importCandidate.strata, settings.samplePercent, settings.stratumCap)
+                  )}
+                </small>
+              )}
               <input
                 className="key-filter"
                 type="text"
@@ -756,6 +2163,7 @@ export function App() {
                         <input
                           type="checkbox"
                           checked={checked}
+                          disabled={key === settings.goldKey}
                           onChange={(e) => {
                             const nextChecked = e.target.checked;
                             setImportKeySelection((prev) => {
@@ -769,6 +2177,31 @@ export function App() {
                     );
                   })}
               </div>
+              <div className="inline-inputs">
+                <select
+                  title="Gold label key"
+                  value={importCandidate.keys.includes(settings.goldKey) ? settings.goldKey : ""}
+                  onChange={(e) => {
+                    const goldKey = e.target.value;
+                    setSettings((s) => ({ ...s, goldKey }));
+                    setImportKeySelection((prev) => prev.filter((k) => k !== goldKey));
+                  }}
+                >
+                  <option value="">No gold label</option>
+                  {importCandidate.keys.map((key) => (
+                    <option key={key} value={key}>
+                      Gold label: {key}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  title="Parsed field compared with the gold label"
+                  placeholder="output_text"
+                  value={settings.goldField}
+                  onChange={(e) => setSettings((s) => ({ ...s, goldField: e.target.value }))}
+                />
+              </div>
               <div className="key-actions">
                 <button type="button" onClick={() => setImportKeySelection(importCandidate.keys)}>
                   Select all
@@ -795,7 +2228,8 @@ export function App() {
               </div>
               <small>
                 Each sample will be sent as JSON containing <code>id</code> plus the selected keys
-                (values are preserved; missing keys are omitted).
+                (values are preserved; missing keys are omitted). The gold label key is never sent;
+                its values are compared with the parsed field after processing.
               </small>
             </div>
           )}
@@ -806,16 +2240,22 @@ export function App() {
         <div className="card-header">
           <h2>Prompt</h2>
           <div className="actions">
+            <button type="button" onClick={previewPrompt}>
+              Preview
+            </button>
             <button type="button" onClick={() => setPrompt(DEFAULT_PROMPT)}>
               Reset to default
             </button>
           </div>
         </div>
         <p className="muted">
-          Each call sends this prompt plus the raw batch (newline-joined). Keep replies as a JSON
-          array of <code>{'{'}"id","output_text"{'}'}</code> objects. Prompt auto-saves as you type
-          (clearing it stays empty and is allowed). Leave it empty to send only the samples. Use
-          <b>Reset to default</b> to restore the built-in template.
+          The prompt is a template: <code>{"{{batch}}"}</code> inserts the rendered samples,{" "}
+          <code>{"{{count}}"}</code> the number of samples and <code>{"{{ids}}"}</code> their
+          comma-separated ids. Without <code>{"{{batch}}"}</code> the samples are appended after the
+          prompt. Keep replies as a JSON array of <code>{'{'}"id","output_text"{'}'}</code> objects.
+          The draft auto-saves as you type (clearing it stays empty and is allowed); runs use the
+          saved version below. Leave it empty to send only the samples. Use <b>Reset to default</b>{" "}
+          to restore the built-in template.
         </p>
         <textarea
           className="prompt-input"
@@ -829,13 +2269,98 @@ export function App() {
           onInput={adjustPromptHeight}
         />
         <div className="muted">
-          Each sample is sent as JSON (e.g. <code>{'{'}"id": "...", "input_text": "..."{'}'}</code>),
+          By default each sample is sent as JSON (e.g. <code>{'{'}"id": "...", "input_text": "..."{'}'}</code>),
           joined with <code>\n</code>. On import, you can choose which JSON keys to include (e.g.{" "}
           <code>output_text</code> stays as <code>output_text</code> instead of being merged into{" "}
           <code>input_text</code>).
         </div>
+        <div className="field schema-field">
+          <span>Per-sample template (optional)</span>
+          <textarea
+            className="schema-input"
+            rows={3}
+            spellCheck={false}
+            placeholder={DEFAULT_ITEM_TEMPLATE}
+            value={itemTemplate}
+            onChange={(e) => setItemTemplate(e.target.value)}
+          />
+          <small>
+            Rendered once per sample and joined with newlines into <code>{"{{batch}}"}</code>.
+            Available: <code>{"{{json}}"}</code> (the sample JSON line), <code>{"{{index}}"}</code>{" "}
+            (1-based), <code>{"{{id}}"}</code>, <code>{"{{sample.<key>}}"}</code> for any
+            imported key, e.g. <code>{"| {{index}} | {{sample.id}} | {{sample.input_text}} |"}</code>,
+            and <code>{"{{record.<key>}}"}</code> for any field of the original line, selected or not.
+          </small>
+        </div>
+        {promptPreview != null && (
+          <div className="field schema-field">
+            <span>Rendered prompt preview</span>
+            <pre className="prompt-preview">{promptPreview}</pre>
+            <div className="actions">
+              <button type="button" onClick={() => setPromptPreview(null)}>
+                Hide preview
+              </button>
+            </div>
+          </div>
+        )}
+        <div className="field schema-field">
+          <span>Output JSON Schema (optional)</span>
+          <textarea
+            className="schema-input"
+            rows={6}
+            spellCheck={false}
+            placeholder={'{"type": "object", "required": ["id", "output_text"]}'}
+            value={schemaText}
+            onChange={(e) => setSchemaText(e.target.value)}
+          />
+          {schemaError ? (
+            <small className="field-error">Invalid schema: {schemaError}</small>
+          ) : (
+            <small>
+              Each parsed output entry is validated against this schema. Failures are stored as
+              errors with the violated fields instead of being marked done. Leave empty to skip
+              validation.
+            </small>
+          )}
+        </div>
+        <PromptVersionsPanel
+          versions={promptVersions}
+          activeVersionId={activeVersionId}
+          draft={{ prompt, itemTemplate, schema: schemaText }}
+          dirty={promptDirty}
+          onSave={savePromptVersion}
+          onUse={usePromptVersion}
+        />
       </section>
 
+      <ReviewPanel projectId={projectId} />
+
+      <ConsensusPanel
+        projectId={projectId}
+        field={settings.consensusField}
+        enabled={settings.consensusMode !== "off"}
+        exportBaseName={exportBaseName}
+      />
+
+      <EvaluationPanel
+        projectId={projectId}
+        goldKey={settings.goldKey}
+        goldField={settings.goldField}
+      />
+
+      <ExperimentPanel
+        projectId={projectId}
+        versions={promptVersions}
+        variantIds={settings.experimentVersionIds}
+        goldKey={settings.goldKey}
+        goldField={settings.goldField}
+      />
+
+      <DispatchPanel
+        projectId={projectId}
+        exportBaseName={exportBaseName}
+      />
+
       <section className="card">
         <div className="card-header">
           <h2>Logs</h2>
@@ -881,6 +2406,7 @@ export function App() {
                 target: r.target,
                 ok: r.ok,
                 error: r.error,
+                validationErrors: r.validationErrors ?? undefined,
                 parsed: r.parsed,
                 createdAt: r.createdAt
               });
@@ -903,15 +2429,6 @@ export function App() {
   );
 }
 
-function Stat({ label, value }: { label: string; value: number | string }) {
-  return (
-    <div className="stat">
-      <div className="stat-label">{label}</div>
-      <div className="stat-value">{value}</div>
-    </div>
-  );
-}
-
 function buildSamplePrompt(id: string, line: string) {
   const text = line.trim();
   return JSON.stringify({ id, input_text: text || "" });
@@ -927,9 +2444,11 @@ function extractSampleText(
   source: SampleTextSource;
   sampleId?: string;
   payload: Record<string, unknown>;
+  // The whole line: its JSON object, or the raw text when it is not one.
+  record: Record<string, unknown> | string;
 } {
   const trimmed = rawLine.trim();
-  if (!trimmed) return { text: "", source: "raw", payload: { input_text: "" } };
+  if (!trimmed) return { text: "", source: "raw", payload: { input_text: "" }, record: "" };
   try {
     const parsed = JSON.parse(trimmed);
     if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
@@ -974,7 +2493,7 @@ function extractSampleText(
       if (previewText == null) previewText = trimmed;
 
       if (Object.keys(payload).length) {
-        return { text: previewText, source: "keys", sampleId: parsedId, payload };
+        return { text: previewText, source: "keys", sampleId: parsedId, payload, record: obj };
       }
 
       // If selected keys are missing on this line, fall back to a best-effort text field or the raw line.
@@ -984,15 +2503,21 @@ function extractSampleText(
           if (typeof obj[k] === "string" && (obj[k] as string).trim()) {
             previewText = (obj[k] as string).trim();
           }
-          return { text: previewText, source: k, sampleId: parsedId, payload };
+          return { text: previewText, source: k, sampleId: parsedId, payload, record: obj };
         }
       }
-      return { text: previewText, source: "raw", sampleId: parsedId, payload: { input_text: trimmed } };
+      return {
+        text: previewText,
+        source: "raw",
+        sampleId: parsedId,
+        payload: { input_text: trimmed },
+        record: obj
+      };
     }
   } catch {
     /* ignore parse errors and fall back to raw */
   }
-  return { text: trimmed, source: "raw", payload: { input_text: trimmed } };
+  return { text: trimmed, source: "raw", payload: { input_text: trimmed }, record: trimmed };
 }
 
 function generateId(now: number) {
@@ -1003,13 +2528,36 @@ function generateId(now: number) {
   }
 }
 
+// 53-bit string hash (cyrb53); collisions are negligible at dataset sizes and it is synchronous,
+// which keeps the import handler's per-line work in order.
+function hashText(text: string) {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
 function buildExportName(fileName: string) {
   if (!fileName) return "llm-labeler-results.jsonl";
-  const cleaned = fileName.replace(/\.gz$/i, "").replace(/\.jsonl$/i, "");
+  const cleaned = fileName.replace(/\.gz$/i, "").replace(/\.(jsonl|ndjson|json|csv|tsv|txt)$/i, "");
   return `${cleaned}_results.jsonl`;
 }
 
-function formatTime(ts: number) {
-  const d = new Date(ts);
-  return d.toLocaleString();
+function buildConsensusRuns(s: SettingsDoc): { run: number; target: AutoTarget }[] | null {
+  if (s.consensusMode === "sites") {
+    return SITE_IDS.map((target, run) => ({ run, target }));
+  }
+  if (s.consensusMode === "repeat") {
+    const runs = Math.min(10, Math.max(2, Math.floor(s.consensusRuns || 2)));
+    const target: AutoTarget = s.dispatchMode === "api" ? "api" : s.consensusRepeatSite;
+    return Array.from({ length: runs }, (_v, run) => ({ run, target }));
+  }
+  return null;
 }
+
@@ -0,0 +1,149 @@
+import { useEffect, useMemo, useState } from "react";
+import { db, makeQueueId, refreshConsensus } from "../db";
+import { computeAgreementStats } from "../shared/consensus";
+import type { ConsensusRecord } from "../shared/types";
+import { downloadBlob, formatPercent, targetLabel } from "./format";
+import { Stat } from "./Stat";
+
+const DISAGREEMENT_PREVIEW_LIMIT = 20;
+
+export function ConsensusPanel({
+  projectId,
+  field,
+  enabled,
+  exportBaseName
+}: {
+  projectId: string;
+  field: string;
+  enabled: boolean;
+  exportBaseName: string;
+}) {
+  const [rows, setRows] = useState<ConsensusRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setRows([]);
+    refresh();
+  }, [projectId]);
+
+  const stats = useMemo(() => computeAgreementStats(rows), [rows]);
+  const disagreements = useMemo(
+    () => rows.filter((r) => r.disagreement).slice(0, DISAGREEMENT_PREVIEW_LIMIT),
+    [rows]
+  );
+
+  async function refresh() {
+    setLoading(true);
+    try {
+      setRows(await db.consensus.where("projectId").equals(projectId).toArray());
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Rebuild every sample's consensus, e.g. after changing the compared field.
+  async function recompute() {
+    setLoading(true);
+    try {
+      const items = await db.queue
+        .where("projectId")
+        .equals(projectId)
+        .filter((item) => typeof item.run === "number" && item.status === "done")
+        .toArray();
+      // A split sample is compared through its merged results, so parts count only once their
+      // run's merged result exists.
+      const stitched = await db.results.bulkGet(
+        items.map((item) =>
+          item.chunk ? `${makeQueueId(projectId, item.chunk.sampleId)}#${item.run}` : ""
+        )
+      );
+      const expected = new Map<string, number>();
+      items.forEach((item, idx) => {
+        if (item.chunk && !stitched[idx]) return;
+        expected.set(item.chunk?.sampleId || item.sample.id || item.id, item.runCount || 0);
+      });
+      await db.consensus.where("projectId").equals(projectId).delete();
+      for (const [sampleId, runs] of expected) {
+        await refreshConsensus(projectId, sampleId, field, runs);
+      }
+      setRows(await db.consensus.where("projectId").equals(projectId).toArray());
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function exportConsensus() {
+    const lines = rows.map((r) =>
+      JSON.stringify({
+        sampleId: r.sampleId,
+        field: r.field,
+        expectedRuns: r.expectedRuns,
+        majority: r.majority,
+        agreement: r.agreement,
+        unanimous: r.unanimous,
+        disagreement: r.disagreement,
+        labels: r.labels
+      })
+    );
+    const blob = new Blob([lines.join("\n")], { type: "application/jsonl" });
+    downloadBlob(blob, `${exportBaseName || "llm-labeler"}_consensus.jsonl`);
+  }
+
+  if (!enabled && !rows.length) return null;
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <h2>Consensus</h2>
+        <div className="actions">
+          <button onClick={refresh} disabled={loading}>
+            {loading ? "Loading..." : "Refresh"}
+          </button>
+          <button onClick={recompute} disabled={loading}>
+            Recompute
+          </button>
+          <button onClick={exportConsensus} disabled={!rows.length}>
+            Export consensus
+          </button>
+        </div>
+      </div>
+      <div className="stats">
+        <Stat label="Samples" value={stats.samples} />
+        <Stat label="All runs labeled" value={stats.complete} />
+        <Stat label="Unanimous" value={stats.unanimous} />
+        <Stat label="Disagreements" value={stats.disagreements} />
+        <Stat label="Pairwise agreement" value={formatPercent(stats.pairwiseAgreement)} />
+        <Stat
+          label="Fleiss' κ"
+          value={stats.fleissKappa == null ? "—" : stats.fleissKappa.toFixed(3)}
+        />
+      </div>
+      <p className="muted">
+        Compares <code>{field}</code> across runs. Fleiss' κ uses samples where every run returned
+        a label. Use <b>Recompute</b> after changing the compared field.
+      </p>
+      {disagreements.length > 0 && (
+        <div className="preview-table">
+          <div className="preview-row consensus-row preview-head">
+            <div className="preview-cell">Sample</div>
+            <div className="preview-cell">Labels</div>
+            <div className="preview-cell meta">Majority</div>
+          </div>
+          {disagreements.map((r) => (
+            <div key={r.id} className="preview-row consensus-row">
+              <div className="preview-cell code">{r.sampleId}</div>
+              <div className="preview-cell code">
+                {r.labels.map((l) => (
+                  <div key={l.resultId}>
+                    {targetLabel(l.target)} #{l.run + 1}: {l.label ?? "(missing)"}
+                  </div>
+                ))}
+              </div>
+              <div className="preview-cell meta">{r.majority ?? "tie"}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import Dexie from "dexie";
+import { db } from "../db";
+import type { DispatchRecord, ResultRecord } from "../shared/types";
+import { downloadBlob, formatDuration, formatTime, targetLabel } from "./format";
+
+const DISPATCH_PAGE_SIZE = 25;
+
+type DispatchDetail = {
+  results: ResultRecord[];
+};
+
+function outputPreview(result: ResultRecord) {
+  const value = (result.parsed as any)?.output_text;
+  if (typeof value === "string") return value;
+  return result.parsed == null ? result.rawResponse : JSON.stringify(result.parsed);
+}
+
+// Recent prompts sent for the project, newest first, with the exact text, the items it carried
+// and the results read from its reply.
+export function DispatchPanel({
+  projectId,
+  exportBaseName
+}: {
+  projectId: string;
+  exportBaseName: string;
+}) {
+  const [dispatches, setDispatches] = useState<DispatchRecord[]>([]);
+  const [limit, setLimit] = useState(DISPATCH_PAGE_SIZE);
+  const [failedOnly, setFailedOnly] = useState(false);
+  const [open, setOpen] = useState<Record<string, DispatchDetail>>({});
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setDispatches([]);
+    setOpen({});
+    refresh(limit, failedOnly);
+  }, [projectId]);
+
+  function recent() {
+    return db.dispatches
+      .where("[projectId+completedAt]")
+      .between([projectId, Dexie.minKey], [projectId, Dexie.maxKey])
+      .reverse();
+  }
+
+  async function refresh(nextLimit = limit, onlyFailed = failedOnly) {
+    setLoading(true);
+    try {
+      const collection = recent();
+      setDispatches(
+        await (onlyFailed ? collection.filter((d) => !d.ok) : collection).limit(nextLimit).toArray()
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function toggle(dispatch: DispatchRecord) {
+    if (open[dispatch.id]) {
+      setOpen(({ [dispatch.id]: _closed, ...rest }) => rest);
+      return;
+    }
+    const results = await db.results.where("dispatchId").equals(dispatch.id).toArray();
+    setOpen((prev) => ({ ...prev, [dispatch.id]: { results } }));
+  }
+
+  async function exportAll() {
+    const all = await recent().toArray();
+    const text = all.map((d) => JSON.stringify(d)).join("\n");
+    downloadBlob(
+      new Blob([text], { type: "application/jsonl" }),
+      `${exportBaseName || "llm-labeler"}_dispatches.jsonl`
+    );
+  }
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <h2>Dispatches</h2>
+        <div className="actions">
+          <button
+            onClick={() => {
+              setFailedOnly((v) => !v);
+              refresh(limit, !failedOnly);
+            }}
+          >
+            {failedOnly ? "Show all" : "Failed only"}
+          </button>
+          <button onClick={exportAll}>Export JSONL</button>
+          <button onClick={() => refresh()} disabled={loading}>
+            {loading ? "Loading..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+      {dispatches.length === 0 ? (
+        <div className="muted">No dispatches recorded yet</div>
+      ) : (
+        <div className="review-list">
+          {dispatches.map((dispatch) => {
+            const detail = open[dispatch.id];
+            return (
+              <div key={dispatch.id} className="review-item">
+                <div className="review-meta">
+                  <span className="key-name">{formatTime(dispatch.sentAt)}</span>
+                  <span className="muted">
+                    {dispatch.kind === "repair" ? "Schema re-ask" : "Batch"} of{" "}
+                    {dispatch.itemCount} · {targetLabel(dispatch.target)}
+                    {dispatch.tabId != null ? ` #${dispatch.tabId}` : ""} ·{" "}
+                    {formatDuration(dispatch.completedAt - dispatch.sentAt)}
+                  </span>
+                  <span className={`pill decision ${dispatch.ok ? "accepted" : "rejected"}`}>
+                    {dispatch.ok ? "ok" : dispatch.error || "failed"}
+                  </span>
+                  <button onClick={() => toggle(dispatch)}>{detail ? "Hide" : "Details"}</button>
+                </div>
+                {detail && (
+                  <>
+                    <div className="muted">
+                      Chat {dispatch.conversationId ?? "—"}
+                      {dispatch.url ? ` · ${dispatch.url}` : ""}
+                      <br />
+                      Prompt {dispatch.promptChars} chars, sha256 {dispatch.promptHash ?? "—"}
+                      {dispatch.promptVersionId
+                        ? `, version ${dispatch.promptVersionId.split(":").pop()}`
+                        : ""}
+                      <br />
+                      Items: {(dispatch.itemIds ?? []).join(", ") || "—"}
+                    </div>
+                    <pre className="review-text">
+                      {dispatch.prompt ?? "(prompt text was not recorded for this dispatch)"}
+                    </pre>
+                    <div className="muted">
+                      {detail.results.length
+                        ? `${detail.results.length} result(s) from this reply`
+                        : "No results kept from this reply"}
+                    </div>
+                    {detail.results.map((result) => (
+                      <div key={result.id} className="review-meta">
+                        <span className="key-name">{result.sampleId}</span>
+                        <span className={`pill decision ${result.ok ? "accepted" : "rejected"}`}>
+                          {result.ok ? "ok" : result.error || "error"}
+                        </span>
+                        <span className="muted">{outputPreview(result).slice(0, 160)}</span>
+                      </div>
+                    ))}
+                  </>
+                )}
+              </div>
+            );
+          })}
+          {dispatches.length >= limit && (
+            <div className="actions">
+              <button
+                onClick={() => {
+                  const next = limit + DISPATCH_PAGE_SIZE;
+                  setLimit(next);
+                  refresh(next);
+                }}
+              >
+                Show more
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { db, loadGoldLabels, loadSampleTexts } from "../db";
+import { normalizeLabel, readField } from "../shared/consensus";
+import { evaluateGold, matchesGold } from "../shared/evaluation";
+import type { GoldEvaluation } from "../shared/types";
+import { formatPercent } from "./format";
+import { Stat } from "./Stat";
+
+const MISMATCH_PREVIEW_LIMIT = 50;
+// Characters of sample text shown per mismatch.
+const SAMPLE_TEXT_PREVIEW = 300;
+
+type Mismatch = {
+  resultId: string;
+  sampleId: string;
+  text: string;
+  gold: unknown;
+  predicted: unknown;
+};
+
+function labelText(value: unknown) {
+  if (value == null) return "(missing)";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+// Parsed outputs of the project checked against the gold label of each imported sample.
+export function EvaluationPanel({
+  projectId,
+  goldKey,
+  goldField
+}: {
+  projectId: string;
+  goldKey: string;
+  goldField: string;
+}) {
+  const [evaluation, setEvaluation] = useState<GoldEvaluation | null>(null);
+  const [mismatches, setMismatches] = useState<Mismatch[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setEvaluation(null);
+    setMismatches([]);
+    if (goldKey.trim()) refresh();
+  }, [projectId, goldKey, goldField]);
+
+  async function refresh() {
+    setLoading(true);
+    try {
+      // Parts of split samples are evaluated through their merged result.
+      const results = (await db.results.where("projectId").equals(projectId).toArray()).filter(
+        (r) => r.ok && !r.chunk
+      );
+      const gold = await loadGoldLabels(projectId, results.map((r) => r.sampleId), goldKey);
+      const labeled = results.filter((r) => normalizeLabel(gold.get(r.sampleId)) != null);
+      setEvaluation(
+        evaluateGold(
+          labeled.map((r) => ({
+            predicted: readField(r.parsed, goldField),
+            gold: gold.get(r.sampleId)
+          }))
+        )
+      );
+      const wrong = labeled
+        .filter((r) => !matchesGold(readField(r.parsed, goldField), gold.get(r.sampleId)))
+        .slice(0, MISMATCH_PREVIEW_LIMIT);
+      const texts = await loadSampleTexts(projectId, wrong);
+      setMismatches(
+        wrong.map((r, idx) => ({
+          resultId: r.id,
+          sampleId: r.sampleId,
+          text: texts[idx],
+          gold: gold.get(r.sampleId),
+          predicted: readField(r.parsed, goldField)
+        }))
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (!goldKey.trim()) return null;
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <h2>Evaluation</h2>
+        <div className="actions">
+          <button onClick={refresh} disabled={loading}>
+            {loading ? "Loading..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+      <div className="stats">
+        <Stat label="With gold label" value={evaluation?.total ?? 0} />
+        <Stat label="Correct" value={evaluation?.correct ?? 0} />
+        <Stat label="Accuracy" value={formatPercent(evaluation?.accuracy)} />
+      </div>
+      <p className="muted">
+        Compares <code>{goldField}</code> of each parsed result with <code>{goldKey}</code> of its
+        imported line (exact match, case-insensitive).
+        {evaluation && evaluation.total > 0 && !evaluation.labels.length
+          ? " Too many distinct labels for a confusion matrix."
+          : ""}
+      </p>
+      {evaluation && evaluation.labels.length > 0 && (
+        <>
+          <div className="matrix-scroll">
+            <table className="confusion-matrix">
+              <thead>
+                <tr>
+                  <th className="muted">gold \ predicted</th>
+                  {evaluation.labels.map((label) => (
+                    <th key={label}>{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {evaluation.labels.map((label, row) => (
+                  <tr key={label}>
+                    <th>{label}</th>
+                    {evaluation.matrix[row].map((count, col) => (
+                      <td key={col} className={row === col ? "hit" : count ? "miss" : ""}>
+                        {count || ""}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="preview-table">
+            <div className="preview-row class-row preview-head">
+              <div className="preview-cell">Label</div>
+              <div className="preview-cell meta">Gold</div>
+              <div className="preview-cell meta">Predicted</div>
+              <div className="preview-cell meta">Precision</div>
+              <div className="preview-cell meta">Recall</div>
+            </div>
+            {evaluation.classes.map((c) => (
+              <div key={c.label} className="preview-row class-row">
+                <div className="preview-cell code">{c.label}</div>
+                <div className="preview-cell meta">{c.support}</div>
+                <div className="preview-cell meta">{c.predicted}</div>
+                <div className="preview-cell meta">{formatPercent(c.precision)}</div>
+                <div className="preview-cell meta">{formatPercent(c.recall)}</div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+      {evaluation && mismatches.length > 0 && (
+        <div className="review-list">
+          <div className="muted">
+            {evaluation.total - evaluation.correct} mismatch(es)
+            {evaluation.total - evaluation.correct > mismatches.length
+              ? `, showing the first ${mismatches.length}`
+              : ""}
+          </div>
+          {mismatches.map((m) => (
+            <div key={m.resultId} className="review-item">
+              <div className="review-meta">
+                <span className="key-name">{m.sampleId}</span>
+                <span className="pill decision accepted">gold: {labelText(m.gold)}</span>
+                <span className="pill decision rejected">output: {labelText(m.predicted)}</span>
+              </div>
+              {m.text && (
+                <pre className="review-text">
+                  {m.text.length > SAMPLE_TEXT_PREVIEW
+                    ? `${m.text.slice(0, SAMPLE_TEXT_PREVIEW)}…`
+                    : m.text}
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { db, loadGoldLabels } from "../db";
+import { summarizeVariant } from "../shared/experiment";
+import type { PromptVersion, VariantSummary } from "../shared/types";
+import { formatDuration, formatPercent } from "./format";
+import { versionLabel } from "./PromptVersionsPanel";
+
+// Side-by-side numbers for the prompt versions of the project's experiment, over the results and
+// dispatches the experiment routed to each of them.
+export function ExperimentPanel({
+  projectId,
+  versions,
+  variantIds,
+  goldKey,
+  goldField
+}: {
+  projectId: string;
+  versions: PromptVersion[];
+  variantIds: string[];
+  goldKey: string;
+  goldField: string;
+}) {
+  const [rows, setRows] = useState<VariantSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setRows([]);
+    if (variantIds.length) refresh();
+  }, [projectId, variantIds.join(","), goldKey, goldField]);
+
+  async function refresh() {
+    setLoading(true);
+    try {
+      const results = (await db.results.where("projectId").equals(projectId).toArray()).filter(
+        (r) => r.experiment
+      );
+      const dispatches = (await db.dispatches.where("projectId").equals(projectId).toArray()).filter(
+        (d) => d.experiment
+      );
+      const gold = await loadGoldLabels(projectId, results.map((r) => r.sampleId), goldKey);
+      setRows(
+        variantIds.map((id) =>
+          summarizeVariant(
+            id,
+            results.filter((r) => r.promptVersionId === id),
+            dispatches.filter((d) => d.promptVersionId === id),
+            gold,
+            goldField
+          )
+        )
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const label = (id: string) => {
+    const version = versions.find((v) => v.id === id);
+    return version ? versionLabel(version) : id;
+  };
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <h2>Experiment</h2>
+        <div className="actions">
+          <button onClick={refresh} disabled={loading || !variantIds.length}>
+            {loading ? "Loading..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+      {!variantIds.length ? (
+        <div className="muted">
+          Pick two or more prompt versions under Prompt experiment to compare them on a slice of
+          the queue
+        </div>
+      ) : (
+        <div className="preview-table">
+          <div className="preview-row experiment-row preview-head">
+            <div className="preview-cell">Version</div>
+            <div className="preview-cell meta">Results</div>
+            <div className="preview-cell meta">Parsed</div>
+            <div className="preview-cell meta">Count mismatch</div>
+            <div className="preview-cell meta">p50</div>
+            <div className="preview-cell meta">Accuracy</div>
+          </div>
+          {rows.map((row) => (
+            <div key={row.versionId} className="preview-row experiment-row">
+              <div className="preview-cell">{label(row.versionId)}</div>
+              <div className="preview-cell meta">
+                {row.results} in {row.batches} batches
+              </div>
+              <div className="preview-cell meta">{formatPercent(row.parseRate)}</div>
+              <div className="preview-cell meta">{formatPercent(row.countMismatchRate)}</div>
+              <div className="preview-cell meta">{formatDuration(row.p50Ms)}</div>
+              <div className="preview-cell meta">
+                {formatPercent(row.accuracy)}
+                {row.goldCount ? ` of ${row.goldCount}` : ""}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useMemo, useState } from "react";
+import { diffLines } from "../shared/diff";
+import type { PromptVersion } from "../shared/types";
+import { formatTime } from "./format";
+
+type PromptDraft = Pick<PromptVersion, "prompt" | "itemTemplate" | "schema">;
+
+// Pseudo version id for the unsaved editor contents in the diff selectors.
+const DRAFT = "draft";
+
+const DIFF_FIELDS: { key: keyof PromptDraft; label: string }[] = [
+  { key: "prompt", label: "Prompt" },
+  { key: "itemTemplate", label: "Per-sample template" },
+  { key: "schema", label: "Output JSON Schema" }
+];
+
+export function versionLabel(version: PromptVersion) {
+  return version.name ? `v${version.number} · ${version.name}` : `v${version.number}`;
+}
+
+// Saved prompt versions of the project: save the editor as a new version, load an older one back
+// into the editor, and compare any two versions (or a version and the unsaved draft) line by line.
+export function PromptVersionsPanel({
+  versions,
+  activeVersionId,
+  draft,
+  dirty,
+  onSave,
+  onUse
+}: {
+  versions: PromptVersion[];
+  activeVersionId: string | null;
+  draft: PromptDraft;
+  dirty: boolean;
+  onSave: (name: string) => Promise<void>;
+  onUse: (version: PromptVersion) => Promise<void>;
+}) {
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [diffFrom, setDiffFrom] = useState("");
+  const [diffTo, setDiffTo] = useState(DRAFT);
+
+  // Default comparison: the active version against the draft.
+  useEffect(() => {
+    setDiffFrom(activeVersionId ?? versions[versions.length - 1]?.id ?? "");
+    setDiffTo(DRAFT);
+  }, [activeVersionId, versions.length]);
+
+  const active = versions.find((v) => v.id === activeVersionId);
+
+  const diffs = useMemo(() => {
+    const pick = (id: string) => (id === DRAFT ? draft : versions.find((v) => v.id === id));
+    const from = pick(diffFrom);
+    const to = pick(diffTo);
+    if (!from || !to) return null;
+    return DIFF_FIELDS.filter(({ key }) => (from[key] ?? "") !== (to[key] ?? "")).map(
+      ({ key, label }) => ({ label, lines: diffLines(from[key] ?? "", to[key] ?? "") })
+    );
+  }, [diffFrom, diffTo, versions, draft]);
+
+  async function save() {
+    setSaving(true);
+    try {
+      await onSave(name.trim());
+      setName("");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const options = (
+    <>
+      <option value={DRAFT}>Unsaved draft</option>
+      {versions.map((v) => (
+        <option key={v.id} value={v.id}>
+          {versionLabel(v)}
+        </option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="field schema-field">
+      <span>Versions</span>
+      <div className="inline-inputs">
+        <input
+          type="text"
+          placeholder="Version name (optional)"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <button type="button" onClick={save} disabled={saving || (!dirty && Boolean(active))}>
+          {saving ? "Saving..." : "Save version"}
+        </button>
+      </div>
+      <small>
+        Runs use {active ? <b>{versionLabel(active)}</b> : "the draft (no version saved yet)"}
+        {active && dirty ? "; the editor has unsaved changes" : ""}. Starting with unsaved changes
+        saves them as a new version first. Versions cannot be edited; every result records the
+        version it was labeled with.
+      </small>
+      {versions.length > 0 && (
+        <div className="review-list">
+          {[...versions].reverse().map((version) => (
+            <div key={version.id} className="review-meta">
+              <span className="key-name">{versionLabel(version)}</span>
+              <span className="muted">{formatTime(version.createdAt)}</span>
+              {version.id === activeVersionId ? (
+                <span className="pill decision accepted">active</span>
+              ) : (
+                <button type="button" onClick={() => onUse(version)}>
+                  Use
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {versions.length > 0 && (
+        <>
+          <div className="inline-inputs">
+            <select value={diffFrom} onChange={(e) => setDiffFrom(e.target.value)}>
+              {options}
+            </select>
+            <span className="muted">→</span>
+            <select value={diffTo} onChange={(e) => setDiffTo(e.target.value)}>
+              {options}
+            </select>
+          </div>
+          {diffs &&
+            (diffs.length === 0 ? (
+              <small>No differences.</small>
+            ) : (
+              diffs.map(({ label, lines }) => (
+                <div key={label}>
+                  <small>{label}</small>
+                  <pre className="review-text">
+                    {lines.map((line, idx) => (
+                      <div key={idx} className={`diff-line ${line.kind}`}>
+                        {line.kind === "add" ? "+ " : line.kind === "remove" ? "- " : "  "}
+                        {line.text}
+                      </div>
+                    ))}
+                  </pre>
+                </div>
+              ))
+            ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { db, loadSampleTexts, reviewOfResult } from "../db";
+import type { ResultRecord, ReviewDecision, ReviewFlag, ReviewRecord } from "../shared/types";
+import { targetLabel } from "./format";
+
+const REVIEW_PAGE_SIZE = 25;
+
+const FLAG_LABELS: Record<ReviewFlag, string> = {
+  parse_fallback: "Parse fallback",
+  schema_failed: "Schema failed",
+  disagreement: "Model disagreement",
+  low_confidence: "Low confidence"
+};
+
+type ReviewEntry = {
+  result: ResultRecord;
+  sampleText: string;
+  review?: ReviewRecord;
+};
+
+function outputTextOf(result: ResultRecord) {
+  const value = (result.parsed as any)?.output_text;
+  if (typeof value === "string") return value;
+  return result.parsed == null ? "" : JSON.stringify(result.parsed, null, 2);
+}
+
+export function ReviewPanel({ projectId }: { projectId: string }) {
+  const [entries, setEntries] = useState<ReviewEntry[]>([]);
+  const [showReviewed, setShowReviewed] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setEntries([]);
+    setEditing(null);
+    refresh();
+  }, [projectId]);
+
+  async function refresh() {
+    setLoading(true);
+    try {
+      // Parts of split samples are reviewed through their merged result, which carries their flags.
+      const flagged = await db.results
+        .where("projectId")
+        .equals(projectId)
+        .filter((r) => Boolean(r.reviewFlags?.length) && !r.chunk)
+        .toArray();
+      const reviews = await db.reviews.bulkGet(flagged.map((r) => r.id));
+      // Decisions on a reply that has since been replaced by a retry are dropped, so the new reply
+      // is reviewed again.
+      const current = flagged.map((result, idx) => reviewOfResult(reviews[idx], result));
+      const stale = flagged.filter((_r, idx) => reviews[idx] && !current[idx]).map((r) => r.id);
+      if (stale.length) await db.reviews.bulkDelete(stale);
+      const texts = await loadSampleTexts(projectId, flagged);
+      setEntries(
+        flagged.map((result, idx) => ({
+          result,
+          sampleText: texts[idx],
+          review: current[idx]
+        }))
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function decide(entry: ReviewEntry, decision: ReviewDecision, editedOutput?: string) {
+    const review: ReviewRecord = {
+      id: entry.result.id,
+      projectId,
+      sampleId: entry.result.sampleId,
+      decision,
+      editedOutput: decision === "edited" ? editedOutput ?? "" : null,
+      resultCreatedAt: entry.result.createdAt,
+      reviewedAt: Date.now()
+    };
+    await db.reviews.put(review);
+    setEditing(null);
+    setEntries((prev) =>
+      prev.map((e) => (e.result.id === entry.result.id ? { ...e, review } : e))
+    );
+  }
+
+  async function undo(entry: ReviewEntry) {
+    await db.reviews.delete(entry.result.id);
+    setEntries((prev) =>
+      prev.map((e) => (e.result.id === entry.result.id ? { ...e, review: undefined } : e))
+    );
+  }
+
+  const open = entries.filter((e) => !e.review);
+  const visible = (showReviewed ? entries : open).slice(0, REVIEW_PAGE_SIZE);
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <h2>
+          Review ({open.length} open / {entries.length} flagged)
+        </h2>
+        <div className="actions">
+          <button onClick={() => setShowReviewed((v) => !v)}>
+            {showReviewed ? "Hide reviewed" : "Show reviewed"}
+          </button>
+          <button onClick={refresh} disabled={loading}>
+            {loading ? "Loading..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+      {visible.length === 0 ? (
+        <div className="muted">Nothing to review</div>
+      ) : (
+        <div className="review-list">
+          {visible.map((entry) => {
+            const { result, review } = entry;
+            const isEditing = editing?.id === result.id;
+            return (
+              <div key={result.id} className="review-item">
+                <div className="review-meta">
+                  <span className="key-name">{result.sampleId}</span>
+                  <span className="muted">
+                    {targetLabel(result.target)}
+                    {typeof result.run === "number" ? ` run ${result.run + 1}` : ""}
+                  </span>
+                  {(result.reviewFlags || []).map((flag) => (
+                    <span key={flag} className="pill flag">
+                      {FLAG_LABELS[flag] ?? flag}
+                    </span>
+                  ))}
+                  {review && <span className={`pill decision ${review.decision}`}>{review.decision}</span>}
+                </div>
+                <div className="review-columns">
+                  <div>
+                    <div className="muted">Sample text</div>
+                    <pre className="review-text">{entry.sampleText}</pre>
+                  </div>
+                  <div>
+                    <div className="muted">Model output</div>
+                    {isEditing ? (
+                      <textarea
+                        className="review-text review-edit"
+                        value={editing.text}
+                        onChange={(e) => setEditing({ id: result.id, text: e.target.value })}
+                      />
+                    ) : (
+                      <pre className="review-text">
+                        {review?.decision === "edited" ? review.editedOutput : outputTextOf(result)}
+                      </pre>
+                    )}
+                  </div>
+                </div>
+                {result.validationErrors?.length ? (
+                  <div className="muted">
+                    {result.validationErrors.map((e) => `${e.path || "entry"} ${e.message}`).join("; ")}
+                  </div>
+                ) : null}
+                <div className="key-actions">
+                  {isEditing ? (
+                    <>
+                      <button onClick={() => decide(entry, "edited", editing.text)}>Save edit</button>
+                      <button onClick={() => setEditing(null)}>Cancel</button>
+                    </>
+                  ) : review ? (
+                    <button onClick={() => undo(entry)}>Undo decision</button>
+                  ) : (
+                    <>
+                      <button onClick={() => decide(entry, "accepted")}>Accept</button>
+                      <button
+                        onClick={() => setEditing({ id: result.id, text: outputTextOf(result) })}
+                      >
+                        Edit
+                      </button>
+                      <button onClick={() => decide(entry, "rejected")}>Reject</button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
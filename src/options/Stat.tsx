@@ -0,0 +1,8 @@
+export function Stat({ label, value }: { label: string; value: number | string }) {
+  return (
+    <div className="stat">
+      <div className="stat-label">{label}</div>
+      <div className="stat-value">{value}</div>
+    </div>
+  );
+}
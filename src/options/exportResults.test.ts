@@ -0,0 +1,130 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it } from "vitest";
+import { db } from "../db";
+import { exportResults, flattenRow, toDelimited, type ExportOptions } from "./exportResults";
+import type { QueueItem, QueueStatus, ResultRecord } from "../shared/types";
+
+const options: ExportOptions = {
+  format: "jsonl",
+  rows: "all",
+  joinInput: false,
+  gzip: false,
+  promptVersionId: null
+};
+
+function item(id: string, status: QueueStatus, lastError: string | null = null): QueueItem {
+  return {
+    id: `p:${id}`,
+    projectId: "p",
+    seq: 0,
+    prompt: JSON.stringify({ id, text: `text ${id}` }),
+    sample: { id, text: `text ${id}` },
+    status,
+    target: "auto",
+    retries: 0,
+    lastError,
+    createdAt: 0,
+    updatedAt: 0
+  };
+}
+
+function result(id: string, ok: boolean, fields: Partial<ResultRecord> = {}): ResultRecord {
+  return {
+    id: `p:${id}`,
+    projectId: "p",
+    sampleId: id,
+    rawResponse: "{}",
+    parsed: ok ? { output_text: id } : { error: "parse_failed" },
+    ok,
+    error: ok ? null : "parse_failed",
+    target: "gemini",
+    createdAt: 0,
+    ...fields
+  };
+}
+
+async function exported(overrides: Partial<ExportOptions>) {
+  const { blob, count } = await exportResults("p", "out", { ...options, ...overrides });
+  const text = await blob.text();
+  const rows = text ? text.split("\n").map((line) => JSON.parse(line)) : [];
+  expect(rows).toHaveLength(count);
+  return rows;
+}
+
+beforeEach(async () => {
+  await Promise.all([db.queue.clear(), db.results.clear(), db.reviews.clear(), db.records.clear()]);
+  await db.queue.bulkPut([
+    item("a", "done"),
+    item("b", "error", "parse_failed"),
+    item("c", "dead", "timeout"),
+    item("d", "error", "send_failed"),
+    item("e", "pending"),
+    { ...item("f", "done"), projectId: "other", id: "other:f" }
+  ]);
+  await db.results.bulkPut([
+    result("a", true, { promptVersionId: "p:v1" }),
+    result("b", false, { promptVersionId: "p:v2" }),
+    result("a~1", true, { chunk: { sampleId: "a", part: 1, parts: 2 } }),
+    { ...result("f", true), projectId: "other", id: "other:f" }
+  ]);
+});
+
+describe("exportResults", () => {
+  it("exports results and the failed items that never got one", async () => {
+    const rows = await exported({});
+    expect(rows.map((r) => [r.id, r.ok, r.error])).toEqual([
+      ["p:a", true, null],
+      ["p:b", false, "parse_failed"],
+      ["p:c", false, "timeout"],
+      ["p:d", false, "send_failed"]
+    ]);
+    expect(rows[2].status).toBe("dead");
+  });
+
+  it("filters by outcome", async () => {
+    expect((await exported({ rows: "ok" })).map((r) => r.id)).toEqual(["p:a"]);
+    expect((await exported({ rows: "error" })).map((r) => r.id)).toEqual(["p:b", "p:c", "p:d"]);
+  });
+
+  it("keeps only the chosen prompt version", async () => {
+    expect((await exported({ promptVersionId: "p:v2" })).map((r) => r.id)).toEqual(["p:b"]);
+  });
+
+  it("joins the imported record, for failed items too", async () => {
+    await db.records.put({
+      id: "p:d",
+      projectId: "p",
+      sampleId: "d",
+      data: { id: "d", text: "text d", lang: "en" },
+      createdAt: 0
+    });
+    const rows = await exported({ rows: "error", joinInput: true });
+    expect(rows.find((r) => r.id === "p:d").input).toEqual({ id: "d", text: "text d", lang: "en" });
+    expect(rows.find((r) => r.id === "p:c").input).toMatchObject({ id: "c", text: "text c" });
+  });
+
+  it("drops a review made on a reply that has since been replaced", async () => {
+    const review = { projectId: "p", decision: "accepted" as const, reviewedAt: 5 };
+    await db.reviews.bulkPut([
+      { ...review, id: "p:a", sampleId: "a", resultCreatedAt: 0 },
+      { ...review, id: "p:b", sampleId: "b", resultCreatedAt: 0 }
+    ]);
+    await db.results.update("p:b", { createdAt: 10 });
+    const rows = await exported({});
+    expect(rows.find((r) => r.id === "p:a").review).toMatchObject({ decision: "accepted" });
+    expect(rows.find((r) => r.id === "p:b").review).toBeUndefined();
+  });
+});
+
+describe("delimited rows", () => {
+  it("flattens nested fields and quotes CSV cells", () => {
+    const rows = [
+      flattenRow({ id: "a", parsed: { label: "x, y", tags: ["t"] } }),
+      flattenRow({ id: "b", error: 'say "no"' })
+    ];
+    expect(toDelimited(rows, ",")).toBe(
+      'id,parsed.label,parsed.tags,error\na,"x, y","[""t""]",\nb,,,"say ""no"""'
+    );
+    expect(toDelimited([{ text: "a\tb\nc" }], "\t")).toBe("text\na\\tb\\nc");
+  });
+});
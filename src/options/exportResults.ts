@@ -0,0 +1,247 @@
+import { gzip } from "pako";
+import { db, loadSourceRecords, makeQueueId, reviewOfResult } from "../db";
+import { buildItemContext, type SourceRecordMap } from "../shared/template";
+import type {
+  ExportFormat,
+  ExportRowFilter,
+  QueueItem,
+  ResultRecord,
+  ReviewRecord,
+  SourceRecord
+} from "../shared/types";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  rows: ExportRowFilter;
+  // Add the imported line's fields under `input`.
+  joinInput: boolean;
+  gzip: boolean;
+  // Only results labeled with this prompt version; null keeps all.
+  promptVersionId: string | null;
+}
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  jsonl: "jsonl",
+  flat_jsonl: "jsonl",
+  csv: "csv",
+  tsv: "tsv"
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  jsonl: "application/jsonl",
+  flat_jsonl: "application/jsonl",
+  csv: "text/csv",
+  tsv: "text/tab-separated-values"
+};
+
+type ExportRow = Record<string, unknown>;
+
+function includeResult(result: ResultRecord, filter: ExportRowFilter) {
+  if (filter === "ok") return result.ok;
+  if (filter === "error") return !result.ok;
+  return true;
+}
+
+// The original line when it was kept (and is an object), otherwise what the queue item holds.
+function inputFields(item: QueueItem, record: SourceRecord["data"] | undefined) {
+  if (record && typeof record === "object") return record;
+  return buildItemContext(item, 0).sample;
+}
+
+function buildRow(
+  result: ResultRecord,
+  review: ReviewRecord | undefined,
+  input: unknown,
+  rawHtml: string | null | undefined
+) {
+  const row: ExportRow = {
+    id: result.id,
+    sampleId: result.sampleId,
+    target: result.target,
+    run: result.run,
+    dispatchId: result.dispatchId ?? undefined,
+    promptVersionId: result.promptVersionId ?? undefined,
+    ok: result.ok,
+    error: result.error,
+    validationErrors: result.validationErrors ?? undefined,
+    parsed: result.parsed,
+    reviewFlags: result.reviewFlags,
+    review: review
+      ? {
+          decision: review.decision,
+          editedOutput: review.editedOutput ?? undefined,
+          reviewedAt: review.reviewedAt
+        }
+      : undefined
+  };
+  row.input = input;
+  row.rawResponse = result.rawResponse;
+  row.rawHtml = rawHtml ?? undefined;
+  return row;
+}
+
+// Items that failed before any reply was stored (send errors, or dead after their retries) have no
+// result row; they are exported from the queue so failures are not under-reported.
+function buildFailedRow(item: QueueItem, input: unknown) {
+  const row: ExportRow = {
+    id: item.id,
+    sampleId: item.sample.id || item.id,
+    target: item.target,
+    run: item.run,
+    status: item.status,
+    ok: false,
+    error: item.lastError || item.status
+  };
+  row.input = input;
+  return row;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+// Nested objects become dotted keys ("parsed.output_text"); arrays stay whole, as JSON text in
+// delimited files.
+export function flattenRow(row: ExportRow, prefix = "", out: ExportRow = {}) {
+  for (const [key, value] of Object.entries(row)) {
+    if (value === undefined) continue;
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length) {
+      flattenRow(value, name, out);
+    } else {
+      out[name] = value;
+    }
+  }
+  return out;
+}
+
+function cellValue(value: unknown) {
+  if (value == null) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return JSON.stringify(value);
+}
+
+function csvCell(value: unknown) {
+  const text = cellValue(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// TSV has no quoting, so tabs and line breaks inside values are written as escapes.
+function tsvCell(value: unknown) {
+  return cellValue(value).replace(/\\/g, "\\\\").replace(/\t/g, "\\t").replace(/\r?\n/g, "\\n");
+}
+
+// Columns are the union over all rows, in the order they first appear.
+export function toDelimited(rows: ExportRow[], delimiter: "," | "\t") {
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (seen.has(key)) continue;
+      seen.add(key);
+      columns.push(key);
+    }
+  }
+  const cell = delimiter === "," ? csvCell : tsvCell;
+  const lines = [columns.map(cell).join(delimiter)];
+  for (const row of rows) {
+    lines.push(columns.map((column) => cell(row[column])).join(delimiter));
+  }
+  return lines.join("\n");
+}
+
+function serialize(rows: ExportRow[], format: ExportFormat) {
+  switch (format) {
+    case "jsonl":
+      return rows.map((row) => JSON.stringify(row)).join("\n");
+    case "flat_jsonl":
+      return rows.map((row) => JSON.stringify(flattenRow(row))).join("\n");
+    case "csv":
+      return toDelimited(rows.map((row) => flattenRow(row)), ",");
+    case "tsv":
+      return toDelimited(rows.map((row) => flattenRow(row)), "\t");
+  }
+}
+
+// `baseName` is the file name without extension.
+export async function exportResults(projectId: string, baseName: string, options: ExportOptions) {
+  const allResults = await db.results.where("projectId").equals(projectId).toArray();
+  // Parts of split samples are exported through their merged result.
+  const results = allResults.filter(
+    (r) =>
+      !r.chunk &&
+      includeResult(r, options.rows) &&
+      (!options.promptVersionId || r.promptVersionId === options.promptVersionId)
+  );
+  // Never sent successfully, so they belong to no prompt version.
+  const answered = new Set(allResults.map((r) => r.id));
+  const failed =
+    options.rows === "ok" || options.promptVersionId
+      ? []
+      : (
+          await db.queue
+            .where("[projectId+status]")
+            .anyOf([projectId, "error"], [projectId, "dead"])
+            .toArray()
+        ).filter((item) => !answered.has(item.id));
+  const reviews = new Map(
+    (await db.reviews.where("projectId").equals(projectId).toArray()).map((r) => [r.id, r])
+  );
+  // The message HTML is kept once per dispatch rather than on each of its results.
+  const dispatchIds = Array.from(
+    new Set(results.map((r) => r.dispatchId).filter((id): id is string => Boolean(id)))
+  );
+  const dispatches = await db.dispatches.bulkGet(dispatchIds);
+  const rawHtml = new Map(dispatchIds.map((id, idx) => [id, dispatches[idx]?.rawHtml]));
+  const items = new Map<string, QueueItem>();
+  let records: SourceRecordMap = new Map();
+  if (options.joinInput) {
+    await db.queue
+      .where("projectId")
+      .equals(projectId)
+      .each((item) => {
+        items.set(item.id, item);
+      });
+    records = await loadSourceRecords(Array.from(items.values()));
+    // Merged results of split samples have no queue item of their own.
+    const merged = results.filter((r) => r.chunkCount);
+    const mergedRecords = await db.records.bulkGet(
+      merged.map((r) => makeQueueId(projectId, r.sampleId))
+    );
+    merged.forEach((r, idx) => {
+      const record = mergedRecords[idx];
+      if (record) records.set(r.id, record.data);
+    });
+  }
+  // Batch-level results have no single queue item to join.
+  const inputFor = (result: ResultRecord) => {
+    const item = items.get(result.id);
+    if (item) return inputFields(item, records.get(item.id));
+    const record = records.get(result.id);
+    return record && typeof record === "object" ? record : undefined;
+  };
+  const rows = results.map((r) =>
+    buildRow(
+      r,
+      reviewOfResult(reviews.get(r.id), r),
+      inputFor(r),
+      r.rawHtml ?? rawHtml.get(r.dispatchId ?? "")
+    )
+  );
+  for (const item of failed) {
+    rows.push(
+      buildFailedRow(item, options.joinInput ? inputFields(item, records.get(item.id)) : undefined)
+    );
+  }
+  const text = serialize(rows, options.format);
+  const fileName = `${baseName}.${EXTENSIONS[options.format]}`;
+  if (options.gzip) {
+    return {
+      blob: new Blob([gzip(text)], { type: "application/gzip" }),
+      fileName: `${fileName}.gz`,
+      count: rows.length
+    };
+  }
+  return { blob: new Blob([text], { type: MIME_TYPES[options.format] }), fileName, count: rows.length };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { joinChunkTexts, mergeChunkOutputs, splitLongItem, splitText } from "./chunking";
+import type { QueueItem } from "./types";
+
+const words = Array.from({ length: 400 }, (_, idx) => `word${idx}`).join(" ");
+
+describe("splitText", () => {
+  it("repeats the overlap and breaks at spaces", () => {
+    const parts = splitText(words, 500, 50);
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) expect(part.length).toBeLessThanOrEqual(500);
+    for (let i = 1; i < parts.length; i++) {
+      expect(parts[i - 1].endsWith(parts[i].slice(0, 50))).toBe(true);
+    }
+    // Each cut falls just before a space, so no word is split.
+    for (const part of parts.slice(0, -1)) expect(part).toMatch(/word\d+$/);
+  });
+
+  it("returns the text back from its parts", () => {
+    expect(joinChunkTexts(splitText(words, 500, 50))).toBe(words);
+    expect(joinChunkTexts(splitText(words, 300, 0))).toBe(words);
+    expect(joinChunkTexts([])).toBe("");
+  });
+});
+
+describe("splitLongItem", () => {
+  const item: QueueItem = {
+    id: "p:s1",
+    projectId: "p",
+    seq: 0,
+    prompt: JSON.stringify({ id: "s1", text: words, lang: "en" }),
+    sample: { id: "s1", text: words },
+    status: "pending",
+    target: "auto",
+    retries: 0,
+    createdAt: 0,
+    updatedAt: 0
+  };
+
+  it("splits the longest field into numbered parts that fit the budget", () => {
+    const parts = splitLongItem(item, 1000, 100)!;
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach((part, idx) => {
+      expect(part.id).toBe(`p:s1~${idx + 1}`);
+      expect(part.chunk).toEqual({ sampleId: "s1", part: idx + 1, parts: parts.length });
+      const payload = JSON.parse(part.prompt);
+      expect(payload).toMatchObject({ id: `s1~${idx + 1}`, lang: "en" });
+      expect(part.prompt.length).toBeLessThanOrEqual(1000);
+    });
+    expect(joinChunkTexts(parts.map((part) => part.sample.text))).toBe(words);
+  });
+
+  it("leaves items that fit, or whose parts would be too small", () => {
+    expect(splitLongItem(item, words.length * 2, 100)).toBeNull();
+    expect(splitLongItem(item, 150, 0)).toBeNull();
+  });
+});
+
+describe("mergeChunkOutputs", () => {
+  it("joins text, concatenates lists and keeps agreed values once", () => {
+    expect(
+      mergeChunkOutputs(
+        [
+          { id: "s1~1", summary: "one", tags: ["a"], flagged: false, score: 1 },
+          { id: "s1~2", summary: "two", tags: ["b"], flagged: false, score: 2 }
+        ],
+        "s1"
+      )
+    ).toEqual({ id: "s1", summary: "one\ntwo", tags: ["a", "b"], flagged: false, score: [1, 2] });
+  });
+
+  it("keeps a label every part agrees on once", () => {
+    expect(
+      mergeChunkOutputs(
+        [
+          { id: "s1~1", label: "pos", tags: ["x"] },
+          { id: "s1~2", label: "pos", tags: ["x"] },
+          { id: "s1~3", label: "pos" }
+        ],
+        "s1"
+      )
+    ).toEqual({ id: "s1", label: "pos", tags: ["x"] });
+  });
+});
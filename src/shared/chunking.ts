@@ -0,0 +1,135 @@
+import { buildBatchPrompt, renderBatchItems } from "./template";
+import type { QueueItem } from "./types";
+
+// Parts shorter than this are not worth a prompt of their own; such samples are flagged instead.
+const MIN_CHUNK_CHARS = 200;
+
+// Characters the prompt adds around the samples (instructions, separators).
+export function promptOverhead(prompt: string, itemTemplate?: string | null) {
+  return buildBatchPrompt([], prompt, itemTemplate).length;
+}
+
+// Characters one item adds to a batch prompt, including the line break that separates it.
+export function measureItem(item: QueueItem, itemTemplate?: string | null) {
+  return renderBatchItems([item], itemTemplate).length + 1;
+}
+
+// Overlapping windows of `size` characters; a part ends at the last line break or space in its
+// final fifth when there is one, so words are not cut in half.
+export function splitText(text: string, size: number, overlap: number) {
+  const step = Math.min(Math.max(0, overlap), Math.floor(size / 2));
+  const parts: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(text.length, start + size);
+    if (end < text.length) {
+      const cut = Math.max(text.lastIndexOf("\n", end), text.lastIndexOf(" ", end));
+      if (cut > start + Math.floor(size * 0.8)) end = cut;
+    }
+    parts.push(text.slice(start, end));
+    if (end >= text.length) break;
+    start = end - step;
+  }
+  return parts;
+}
+
+// The text splitText was given, back from its parts: each part repeats the end of the one before
+// it, so the longest such overlap is dropped from every part after the first.
+export function joinChunkTexts(parts: string[]) {
+  let text = parts[0] ?? "";
+  for (const part of parts.slice(1)) {
+    let overlap = Math.min(text.length, part.length);
+    while (overlap > 0 && !text.endsWith(part.slice(0, overlap))) overlap--;
+    text += part.slice(overlap);
+  }
+  return text;
+}
+
+function parsePayload(item: QueueItem): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(item.prompt || "");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// Splits the longest string field of the item's payload so every part fits in `itemBudget`
+// characters of prompt. Parts are queued as `<id>~<n>` and show the model the sample id
+// `<sampleId>~<n>`. Returns null when the item has no string field long enough to split.
+export function splitLongItem(
+  item: QueueItem,
+  itemBudget: number,
+  overlap: number,
+  itemTemplate?: string | null
+): QueueItem[] | null {
+  const payload = parsePayload(item);
+  if (!payload) return null;
+  let field: string | null = null;
+  for (const [key, value] of Object.entries(payload)) {
+    if (key === "id" || typeof value !== "string") continue;
+    if (!field || value.length > (payload[field] as string).length) field = key;
+  }
+  if (!field) return null;
+  const text = payload[field] as string;
+  const sampleId = item.sample.id || item.id;
+  // Measured with a part id at least as wide as any real one (there are fewer parts than
+  // characters).
+  const emptied = {
+    ...item,
+    prompt: JSON.stringify({ ...payload, id: `${sampleId}~${text.length}`, [field]: "" }),
+    sample: { ...item.sample, id: `${sampleId}~${text.length}` }
+  };
+  const rest = measureItem(emptied, itemTemplate);
+  // JSON escapes make the text longer in the prompt than it is; scale the room down to match.
+  const escapedLength = Math.max(1, JSON.stringify(text).length - 2);
+  const size = Math.floor(((itemBudget - rest) * text.length) / escapedLength);
+  if (size < MIN_CHUNK_CHARS || size >= text.length) return null;
+
+  const parts = splitText(text, size, overlap);
+  return parts.map((part, idx) => {
+    const partSampleId = `${sampleId}~${idx + 1}`;
+    return {
+      ...item,
+      id: `${item.id}~${idx + 1}`,
+      prompt: JSON.stringify({ ...payload, id: partSampleId, [field!]: part }),
+      sample: {
+        ...item.sample,
+        id: partSampleId,
+        text: item.sample.text === text ? part : item.sample.text
+      },
+      chunk: { sampleId, part: idx + 1, parts: parts.length }
+    };
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+// One output for a split sample from the outputs of its parts, in order: values every part agrees
+// on (e.g. a label) are kept once, differing text fields are joined with line breaks, differing
+// lists are concatenated and anything else becomes a list with one entry per part. Overlapping text
+// is not de-duplicated.
+export function mergeChunkOutputs(outputs: unknown[], sampleId: string) {
+  const objects = outputs.filter(isPlainObject);
+  const keys: string[] = [];
+  for (const obj of objects) {
+    for (const key of Object.keys(obj)) if (!keys.includes(key)) keys.push(key);
+  }
+  const merged: Record<string, unknown> = {};
+  for (const key of keys) {
+    const values = objects.map((obj) => obj[key]).filter((value) => value !== undefined);
+    if (values.every((value) => JSON.stringify(value) === JSON.stringify(values[0]))) {
+      merged[key] = values[0];
+    } else if (values.every((value) => typeof value === "string")) {
+      merged[key] = values.join("\n");
+    } else if (values.every(Array.isArray)) {
+      merged[key] = (values as unknown[][]).flat();
+    } else {
+      merged[key] = values;
+    }
+  }
+  merged.id = sampleId;
+  return merged;
+}
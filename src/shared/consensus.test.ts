@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { computeAgreementStats, normalizeLabel, readField, summarizeLabels } from "./consensus";
+import type { ConsensusLabel } from "./types";
+
+function labels(...values: (string | null)[]): ConsensusLabel[] {
+  return values.map((label, run) => ({ resultId: `r${run}`, run, target: "gemini", label }));
+}
+
+describe("readField", () => {
+  it("follows dotted paths and defaults to output_text", () => {
+    expect(readField({ a: { b: 1 } }, "a.b")).toBe(1);
+    expect(readField({ a: 1 }, "a.b")).toBeUndefined();
+    expect(readField({ output_text: "x" }, "")).toBe("x");
+  });
+});
+
+describe("normalizeLabel", () => {
+  it("ignores case and extra whitespace", () => {
+    expect(normalizeLabel("  Very   Positive ")).toBe("very positive");
+    expect(normalizeLabel("   ")).toBeNull();
+    expect(normalizeLabel(undefined)).toBeNull();
+    expect(normalizeLabel(3)).toBe("3");
+  });
+});
+
+describe("summarizeLabels", () => {
+  it("finds the majority", () => {
+    expect(summarizeLabels(labels("a", "a", "b"))).toEqual({
+      majority: "a",
+      agreement: 2 / 3,
+      unanimous: false,
+      disagreement: true
+    });
+  });
+
+  it("has no majority on a tie and skips missing labels", () => {
+    const summary = summarizeLabels(labels("a", "b", null));
+    expect(summary.majority).toBeNull();
+    expect(summary.agreement).toBe(0.5);
+  });
+});
+
+describe("computeAgreementStats", () => {
+  it("computes Fleiss' kappa over complete samples", () => {
+    // Two raters, four samples: 2 agree on "a", 1 agrees on "b", 1 splits.
+    const rows = [
+      labels("a", "a"),
+      labels("a", "a"),
+      labels("b", "b"),
+      labels("a", "b"),
+      labels("a", null)
+    ].map((l) => ({ labels: l, expectedRuns: 2 }));
+    const stats = computeAgreementStats(rows);
+    expect(stats).toMatchObject({ samples: 5, complete: 4, unanimous: 3, disagreements: 1 });
+    expect(stats.pairwiseAgreement).toBeCloseTo(0.75);
+    // P̄ = 0.75; category shares 5/8 and 3/8, so Pe = 34/64.
+    expect(stats.fleissKappa).toBeCloseTo((0.75 - 34 / 64) / (1 - 34 / 64));
+  });
+
+  it("is 1 when every sample has the same unanimous label", () => {
+    const stats = computeAgreementStats([{ labels: labels("a", "a", "a"), expectedRuns: 3 }]);
+    expect(stats.fleissKappa).toBe(1);
+  });
+
+  it("has no kappa without complete samples", () => {
+    const stats = computeAgreementStats([{ labels: labels("a"), expectedRuns: 2 }]);
+    expect(stats.fleissKappa).toBeNull();
+  });
+});
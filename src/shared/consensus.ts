@@ -0,0 +1,124 @@
+import type { ConsensusLabel } from "./types";
+
+export const DEFAULT_CONSENSUS_FIELD = "output_text";
+
+// Read a (possibly dotted) field from a parsed result entry.
+export function readField(parsed: unknown, field: string): unknown {
+  let value: unknown = parsed;
+  for (const key of (field || DEFAULT_CONSENSUS_FIELD).split(".")) {
+    if (value == null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+// Labels are compared case-insensitively with whitespace collapsed; non-strings by their JSON form.
+export function normalizeLabel(value: unknown): string | null {
+  if (value == null) return null;
+  if (typeof value === "string") {
+    const cleaned = value.trim().replace(/\s+/g, " ").toLowerCase();
+    return cleaned || null;
+  }
+  return JSON.stringify(value);
+}
+
+export function summarizeLabels(labels: ConsensusLabel[]) {
+  const counts = new Map<string, number>();
+  for (const entry of labels) {
+    if (entry.label == null) continue;
+    counts.set(entry.label, (counts.get(entry.label) || 0) + 1);
+  }
+  let majority: string | null = null;
+  let majorityCount = 0;
+  let tied = false;
+  for (const [label, count] of counts) {
+    if (count > majorityCount) {
+      majority = label;
+      majorityCount = count;
+      tied = false;
+    } else if (count === majorityCount) {
+      tied = true;
+    }
+  }
+  const labeled = labels.filter((entry) => entry.label != null).length;
+  return {
+    // A tie has no majority label.
+    majority: tied ? null : majority,
+    agreement: labeled ? majorityCount / labeled : 0,
+    unanimous: labeled > 1 && counts.size === 1,
+    disagreement: counts.size > 1
+  };
+}
+
+export interface AgreementStats {
+  samples: number;
+  complete: number;
+  unanimous: number;
+  disagreements: number;
+  // Mean share of agreeing rater pairs per sample.
+  pairwiseAgreement: number | null;
+  // Fleiss' kappa over samples with the full number of labeled runs.
+  fleissKappa: number | null;
+}
+
+export function computeAgreementStats(
+  rows: { labels: ConsensusLabel[]; expectedRuns: number }[]
+): AgreementStats {
+  let complete = 0;
+  let unanimous = 0;
+  let disagreements = 0;
+  let pairSum = 0;
+  let pairSamples = 0;
+  const fleissRows: Map<string, number>[] = [];
+  let raters = 0;
+
+  for (const row of rows) {
+    const labels = row.labels.map((entry) => entry.label).filter((l): l is string => l != null);
+    const counts = new Map<string, number>();
+    labels.forEach((label) => counts.set(label, (counts.get(label) || 0) + 1));
+    if (counts.size > 1) disagreements += 1;
+    if (labels.length > 1 && counts.size === 1) unanimous += 1;
+    if (labels.length >= 2) {
+      let agreeingPairs = 0;
+      counts.forEach((c) => (agreeingPairs += (c * (c - 1)) / 2));
+      pairSum += agreeingPairs / ((labels.length * (labels.length - 1)) / 2);
+      pairSamples += 1;
+    }
+    if (row.expectedRuns >= 2 && labels.length === row.expectedRuns) {
+      complete += 1;
+      if (!raters) raters = row.expectedRuns;
+      if (row.expectedRuns === raters) fleissRows.push(counts);
+    }
+  }
+
+  let fleissKappa: number | null = null;
+  if (fleissRows.length && raters >= 2) {
+    const n = raters;
+    const categoryTotals = new Map<string, number>();
+    let pBar = 0;
+    for (const counts of fleissRows) {
+      let sum = 0;
+      counts.forEach((c, label) => {
+        sum += c * (c - 1);
+        categoryTotals.set(label, (categoryTotals.get(label) || 0) + c);
+      });
+      pBar += sum / (n * (n - 1));
+    }
+    pBar /= fleissRows.length;
+    let pe = 0;
+    categoryTotals.forEach((total) => {
+      const p = total / (fleissRows.length * n);
+      pe += p * p;
+    });
+    fleissKappa = pe >= 1 ? 1 : (pBar - pe) / (1 - pe);
+  }
+
+  return {
+    samples: rows.length,
+    complete,
+    unanimous,
+    disagreements,
+    pairwiseAgreement: pairSamples ? pairSum / pairSamples : null,
+    fleissKappa
+  };
+}
@@ -8,11 +8,12 @@ Rules:
 
 Output format (JSON only):
 [
-{{
+{
   "id": "<sample id>",
   "output_text": "<text with emojis replaced by <sub alias=...> or <vocal-gesture type=.../>; leave other text unchanged>"
-}}
+}
 ]
 
-Input Text:
+Input Text ({{count}} samples):
+{{batch}}
 `;
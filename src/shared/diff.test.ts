@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { diffLines } from "./diff";
+
+describe("diffLines", () => {
+  it("marks replaced lines as a removal followed by an addition", () => {
+    expect(diffLines("a\nb\nc", "a\nx\nc\nd")).toEqual([
+      { kind: "same", text: "a" },
+      { kind: "remove", text: "b" },
+      { kind: "add", text: "x" },
+      { kind: "same", text: "c" },
+      { kind: "add", text: "d" }
+    ]);
+  });
+
+  it("keeps the longest common run of lines", () => {
+    const lines = diffLines("1\n2\n3\n4", "0\n2\n3\n5");
+    expect(lines.filter((l) => l.kind === "same").map((l) => l.text)).toEqual(["2", "3"]);
+  });
+
+  it("finds no changes between equal texts", () => {
+    expect(diffLines("a\nb", "a\nb").every((l) => l.kind === "same")).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { evaluateGold, matchesGold, MAX_CLASS_LABELS, NO_LABEL } from "./evaluation";
+
+describe("matchesGold", () => {
+  it("compares normalized labels and needs a gold label", () => {
+    expect(matchesGold(" Positive", "positive")).toBe(true);
+    expect(matchesGold("positive", "negative")).toBe(false);
+    expect(matchesGold("", "")).toBe(false);
+  });
+});
+
+describe("evaluateGold", () => {
+  it("builds the confusion matrix and per-class figures", () => {
+    const evaluation = evaluateGold([
+      { predicted: "pos", gold: "pos" },
+      { predicted: "pos", gold: "pos" },
+      { predicted: "neg", gold: "pos" },
+      { predicted: "neg", gold: "neg" },
+      { predicted: undefined, gold: "neg" },
+      { predicted: "pos", gold: null }
+    ]);
+    expect(evaluation.total).toBe(5);
+    expect(evaluation.correct).toBe(3);
+    expect(evaluation.accuracy).toBeCloseTo(0.6);
+    expect(evaluation.labels).toEqual(["pos", "neg", NO_LABEL]);
+    // Rows are gold labels, columns predictions.
+    expect(evaluation.matrix).toEqual([
+      [2, 1, 0],
+      [0, 1, 1],
+      [0, 0, 0]
+    ]);
+    expect(evaluation.classes).toEqual([
+      { label: "pos", support: 3, predicted: 2, precision: 1, recall: 2 / 3 },
+      { label: "neg", support: 2, predicted: 2, precision: 0.5, recall: 0.5 }
+    ]);
+  });
+
+  it("reports accuracy only for free-text labels", () => {
+    const pairs = Array.from({ length: MAX_CLASS_LABELS + 1 }, (_, idx) => ({
+      predicted: `label ${idx}`,
+      gold: `label ${idx}`
+    }));
+    const evaluation = evaluateGold(pairs);
+    expect(evaluation.accuracy).toBe(1);
+    expect(evaluation.labels).toEqual([]);
+    expect(evaluation.matrix).toEqual([]);
+  });
+
+  it("has no accuracy without gold labels", () => {
+    expect(evaluateGold([{ predicted: "a", gold: undefined }]).accuracy).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import { normalizeLabel } from "./consensus";
+import type { ClassMetrics, GoldEvaluation } from "./types";
+
+// With more distinct labels than this the outputs are treated as free text: accuracy only, no
+// confusion matrix or per-class figures.
+export const MAX_CLASS_LABELS = 20;
+
+// Label used for a missing or empty prediction.
+export const NO_LABEL = "(none)";
+
+export interface GoldPair {
+  predicted: unknown;
+  gold: unknown;
+}
+
+// Exact match after normalizeLabel (case and whitespace insensitive).
+export function matchesGold(predicted: unknown, gold: unknown) {
+  const expected = normalizeLabel(gold);
+  return expected != null && normalizeLabel(predicted) === expected;
+}
+
+// `pairs` without a gold label are skipped. Matrix rows are gold labels and columns predictions,
+// both in the order of `labels` (gold labels by frequency, then labels only ever predicted).
+export function evaluateGold(pairs: GoldPair[]): GoldEvaluation {
+  const rows: { gold: string; predicted: string }[] = [];
+  for (const pair of pairs) {
+    const gold = normalizeLabel(pair.gold);
+    if (gold == null) continue;
+    rows.push({ gold, predicted: normalizeLabel(pair.predicted) ?? NO_LABEL });
+  }
+  const correct = rows.filter((row) => row.gold === row.predicted).length;
+  const goldCounts = new Map<string, number>();
+  for (const row of rows) goldCounts.set(row.gold, (goldCounts.get(row.gold) ?? 0) + 1);
+  const labels = Array.from(goldCounts.keys()).sort(
+    (a, b) => goldCounts.get(b)! - goldCounts.get(a)! || a.localeCompare(b)
+  );
+  for (const row of rows) if (!labels.includes(row.predicted)) labels.push(row.predicted);
+
+  const evaluation: GoldEvaluation = {
+    total: rows.length,
+    correct,
+    accuracy: rows.length ? correct / rows.length : null,
+    labels: [],
+    matrix: [],
+    classes: []
+  };
+  if (!rows.length || labels.length > MAX_CLASS_LABELS) return evaluation;
+
+  const index = new Map(labels.map((label, idx) => [label, idx]));
+  const matrix = labels.map(() => labels.map(() => 0));
+  for (const row of rows) matrix[index.get(row.gold)!][index.get(row.predicted)!] += 1;
+  const classes: ClassMetrics[] = labels
+    .filter((label) => goldCounts.has(label))
+    .map((label) => {
+      const idx = index.get(label)!;
+      const hits = matrix[idx][idx];
+      const support = goldCounts.get(label)!;
+      const predicted = matrix.reduce((sum, row) => sum + row[idx], 0);
+      return {
+        label,
+        support,
+        predicted,
+        precision: predicted ? hits / predicted : null,
+        recall: support ? hits / support : null
+      };
+    });
+  return { ...evaluation, labels, matrix, classes };
+}
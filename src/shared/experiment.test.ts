@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { routeToVariant, summarizeVariant, variantShare } from "./experiment";
+import type { DispatchRecord, ResultRecord } from "./types";
+
+describe("variantShare", () => {
+  it("never gives the variants more than the whole queue", () => {
+    expect(variantShare(2, 10)).toBe(10);
+    expect(variantShare(3, 50)).toBeCloseTo(100 / 3);
+    expect(variantShare(0, 10)).toBe(0);
+  });
+});
+
+describe("routeToVariant", () => {
+  const ids = Array.from({ length: 10000 }, (_, idx) => `row-${idx}`);
+
+  it("routes a sample by its id alone", () => {
+    const slots = ids.slice(0, 100).map((id) => routeToVariant(id, 2, 10));
+    expect([...ids.slice(0, 100)].reverse().map((id) => routeToVariant(id, 2, 10))).toEqual(
+      slots.reverse()
+    );
+  });
+
+  it("gives each variant about its share of the samples", () => {
+    const counts = [0, 0];
+    let outside = 0;
+    for (const id of ids) {
+      const slot = routeToVariant(id, 2, 10);
+      if (slot === null) outside += 1;
+      else counts[slot] += 1;
+    }
+    for (const count of counts) expect(count).toBeGreaterThan(850);
+    for (const count of counts) expect(count).toBeLessThan(1150);
+    expect(outside).toBe(ids.length - counts[0] - counts[1]);
+  });
+
+  it("routes nothing at 0%", () => {
+    expect(ids.slice(0, 100).every((id) => routeToVariant(id, 2, 0) === null)).toBe(true);
+  });
+});
+
+describe("summarizeVariant", () => {
+  const result = (sampleId: string, ok: boolean, label?: string): ResultRecord => ({
+    id: `p:${sampleId}`,
+    projectId: "p",
+    sampleId,
+    rawResponse: "",
+    parsed: label === undefined ? undefined : { label },
+    ok,
+    target: "api",
+    createdAt: 0
+  });
+  const dispatch = (itemCount: number, outputCount: number | null, ms: number) =>
+    ({ kind: "batch", ok: true, itemCount, outputCount, sentAt: 0, completedAt: ms }) as
+      DispatchRecord;
+
+  it("counts parse rate, count mismatches, latency and accuracy", () => {
+    const summary = summarizeVariant(
+      "v1",
+      [result("a", true, "pos"), result("b", true, "neg"), result("c", false)],
+      [dispatch(2, 2, 100), dispatch(2, 1, 300), dispatch(1, 1, 200)],
+      new Map([
+        ["a", "pos"],
+        ["b", "pos"]
+      ]),
+      "label"
+    );
+    expect(summary).toMatchObject({
+      versionId: "v1",
+      results: 3,
+      batches: 3,
+      countMismatchRate: 0.5,
+      p50Ms: 200,
+      goldCount: 2,
+      accuracy: 0.5
+    });
+    expect(summary.parseRate).toBeCloseTo(2 / 3);
+  });
+});
@@ -0,0 +1,65 @@
+import { readField } from "./consensus";
+import { evaluateGold } from "./evaluation";
+import { percentile } from "./metrics";
+import type { DispatchRecord, ResultRecord, VariantSummary } from "./types";
+
+// FNV-1a over the sample id with a murmur3 finalizer (ids like "row-1", "row-2" differ only in
+// their last characters, which FNV alone spreads poorly), scaled to [0, 1).
+function hashUnit(text: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h = Math.imul(h ^ text.charCodeAt(i), 16777619);
+  }
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
+
+// Share of the samples each of `variantCount` variants gets, in percent; together they never take
+// more than the whole queue.
+export function variantShare(variantCount: number, percent: number) {
+  if (variantCount <= 0) return 0;
+  return Math.min(Math.max(0, percent), 100 / variantCount);
+}
+
+// Index of the variant a sample is routed to, or null when it is outside the experiment's slice.
+// Depends only on the sample id, so a sample lands in the same slot across restarts, retries,
+// consensus runs and the parts of a split sample.
+export function routeToVariant(sampleId: string, variantCount: number, percent: number) {
+  const share = variantShare(variantCount, percent);
+  if (!share) return null;
+  const slot = Math.floor((hashUnit(sampleId) * 100) / share);
+  return slot < variantCount ? slot : null;
+}
+
+// `results` and `dispatches` are the experiment's records for one prompt version; `gold` maps a
+// sample id to its reference label where the import had one.
+export function summarizeVariant(
+  versionId: string,
+  results: ResultRecord[],
+  dispatches: DispatchRecord[],
+  gold: Map<string, unknown>,
+  goldField: string
+): VariantSummary {
+  // Parts of split samples count through their merged result.
+  const samples = results.filter((r) => !r.chunk);
+  const parsedOk = samples.filter((r) => r.ok);
+  const batches = dispatches.filter((d) => d.kind === "batch");
+  const finished = batches.filter((d) => d.ok);
+  // Single-item batches cannot mismatch, and batch-level replies have no entry count.
+  const counted = finished.filter((d) => d.itemCount > 1 && d.outputCount != null);
+  const mismatched = counted.filter((d) => d.outputCount !== d.itemCount);
+  const { total: goldCount, accuracy } = evaluateGold(
+    parsedOk.map((r) => ({ predicted: readField(r.parsed, goldField), gold: gold.get(r.sampleId) }))
+  );
+  return {
+    versionId,
+    results: samples.length,
+    parseRate: samples.length ? parsedOk.length / samples.length : null,
+    batches: batches.length,
+    countMismatchRate: counted.length ? mismatched.length / counted.length : null,
+    p50Ms: percentile(finished.map((d) => d.completedAt - d.sentAt), 50),
+    goldCount,
+    accuracy
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { formatValidationErrors, parseSchemaText, validateJsonSchema } from "./jsonSchema";
+
+const schema = {
+  type: "object",
+  required: ["id", "label"],
+  properties: {
+    id: { type: "string" },
+    label: { enum: ["pos", "neg"] },
+    score: { type: "number", minimum: 0, maximum: 1 },
+    tags: { type: "array", items: { type: "string", minLength: 1 }, maxItems: 2 }
+  },
+  additionalProperties: false
+};
+
+describe("parseSchemaText", () => {
+  it("treats empty text as no schema", () => {
+    expect(parseSchemaText("  ")).toEqual({ schema: null });
+  });
+
+  it("rejects JSON that is not an object", () => {
+    expect(parseSchemaText("[1]").error).toBe("Schema must be a JSON object");
+    expect(parseSchemaText("{").error).toBeTruthy();
+  });
+});
+
+describe("validateJsonSchema", () => {
+  it("accepts a conforming entry", () => {
+    expect(validateJsonSchema(schema, { id: "a", label: "pos", score: 0.5, tags: ["x"] })).toEqual(
+      []
+    );
+  });
+
+  it("reports each problem with its path", () => {
+    const errors = validateJsonSchema(schema, {
+      label: "maybe",
+      score: 2,
+      tags: ["", "b", "c"],
+      extra: true
+    });
+    expect(errors.map((e) => [e.path, e.keyword])).toEqual([
+      ["/id", "required"],
+      ["/label", "enum"],
+      ["/score", "maximum"],
+      ["/tags", "maxItems"],
+      ["/tags/0", "minLength"],
+      ["/extra", "additionalProperties"]
+    ]);
+  });
+
+  it("stops at a type mismatch", () => {
+    expect(validateJsonSchema({ type: "integer", minimum: 5 }, 1.5)).toEqual([
+      { path: "", keyword: "type", message: "must be integer (got number)" }
+    ]);
+  });
+
+  it("checks anyOf and oneOf", () => {
+    const either = { anyOf: [{ type: "string" }, { type: "number" }] };
+    expect(validateJsonSchema(either, 1)).toEqual([]);
+    expect(validateJsonSchema(either, null)[0].keyword).toBe("anyOf");
+    const exactlyOne = { oneOf: [{ type: "number" }, { type: "integer" }] };
+    expect(validateJsonSchema(exactlyOne, 1.5)).toEqual([]);
+    expect(validateJsonSchema(exactlyOne, 2)[0].keyword).toBe("oneOf");
+  });
+});
+
+describe("formatValidationErrors", () => {
+  it("names the field or the entry", () => {
+    expect(
+      formatValidationErrors([
+        { path: "/label", keyword: "enum", message: "must be one of: \"pos\"" },
+        { path: "", keyword: "type", message: "must be object (got array)" }
+      ])
+    ).toBe('field label must be one of: "pos"; entry must be object (got array)');
+  });
+});
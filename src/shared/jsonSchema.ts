@@ -0,0 +1,199 @@
+// Minimal JSON Schema validator for model output.
+// Only the keywords that matter for label records are supported; unknown keywords are ignored.
+// (Schema compilers such as ajv rely on `new Function`, which the extension CSP forbids.)
+
+export type JsonSchema = {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  [key: string]: unknown;
+};
+
+export interface SchemaValidationError {
+  // JSON Pointer-style path to the offending value ("" is the entry itself).
+  path: string;
+  keyword: string;
+  message: string;
+}
+
+export function parseSchemaText(text: string | null | undefined): {
+  schema: JsonSchema | null;
+  error?: string;
+} {
+  const trimmed = (text || "").trim();
+  if (!trimmed) return { schema: null };
+  try {
+    const parsed = JSON.parse(trimmed);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return { schema: null, error: "Schema must be a JSON object" };
+    }
+    return { schema: parsed as JsonSchema };
+  } catch (err: any) {
+    return { schema: null, error: err?.message || String(err) };
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string) {
+  switch (type) {
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "object":
+      return typeOf(value) === "object";
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a as object);
+  const keysB = Object.keys(b as object);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every((k) => deepEqual((a as any)[k], (b as any)[k]));
+}
+
+function escapePointer(key: string) {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function validateAt(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  out: SchemaValidationError[]
+) {
+  if (!schema || typeof schema !== "object") return;
+  const push = (keyword: string, message: string) => out.push({ path, keyword, message });
+
+  if (schema.type != null) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      push("type", `must be ${types.join(" or ")} (got ${typeOf(value)})`);
+      return;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((v) => deepEqual(v, value))) {
+    push("enum", `must be one of: ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`);
+  }
+  if ("const" in schema && !deepEqual(schema.const, value)) {
+    push("const", `must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      push("minLength", `must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      push("maxLength", `must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === "string") {
+      try {
+        if (!new RegExp(schema.pattern, "u").test(value)) {
+          push("pattern", `must match /${schema.pattern}/`);
+        }
+      } catch {
+        /* ignore invalid patterns */
+      }
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      push("minimum", `must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      push("maximum", `must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      push("minItems", `must have at least ${schema.minItems} item(s)`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      push("maxItems", `must have at most ${schema.maxItems} item(s)`);
+    }
+    if (schema.items && typeof schema.items === "object") {
+      value.forEach((entry, idx) => validateAt(schema.items!, entry, `${path}/${idx}`, out));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!Object.prototype.hasOwnProperty.call(obj, key)) {
+        out.push({
+          path: `${path}/${escapePointer(key)}`,
+          keyword: "required",
+          message: "is required"
+        });
+      }
+    }
+    const props = schema.properties || {};
+    for (const [key, child] of Object.entries(obj)) {
+      const childPath = `${path}/${escapePointer(key)}`;
+      if (Object.prototype.hasOwnProperty.call(props, key)) {
+        validateAt(props[key], child, childPath, out);
+      } else if (schema.additionalProperties === false) {
+        out.push({ path: childPath, keyword: "additionalProperties", message: "is not allowed" });
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        validateAt(schema.additionalProperties, child, childPath, out);
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    schema.allOf.forEach((sub) => validateAt(sub, value, path, out));
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const passes = schema.anyOf.some((sub) => validateJsonSchema(sub, value, path).length === 0);
+    if (!passes) push("anyOf", "must match at least one allowed shape");
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const passes = schema.oneOf.filter(
+      (sub) => validateJsonSchema(sub, value, path).length === 0
+    ).length;
+    if (passes !== 1) push("oneOf", "must match exactly one allowed shape");
+  }
+}
+
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path = ""
+): SchemaValidationError[] {
+  const out: SchemaValidationError[] = [];
+  validateAt(schema, value, path, out);
+  return out;
+}
+
+export function formatValidationErrors(errors: SchemaValidationError[]) {
+  return errors
+    .map((e) => `${e.path ? `field ${e.path.slice(1)}` : "entry"} ${e.message}`)
+    .join("; ");
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { estimateTokens, percentile, summarizeDispatches, THROUGHPUT_WINDOW_MS } from "./metrics";
+import type { DispatchRecord } from "./types";
+
+const MINUTE = 60 * 1000;
+
+function dispatch(fields: Partial<DispatchRecord>): DispatchRecord {
+  return {
+    id: "d",
+    projectId: "p",
+    target: "gemini",
+    tabId: 1,
+    workerKey: "tab:1",
+    kind: "batch",
+    itemCount: 10,
+    sentAt: 0,
+    firstTextAt: null,
+    completedAt: 0,
+    promptChars: 400,
+    replyChars: 200,
+    inputTokens: 100,
+    outputTokens: 50,
+    ok: true,
+    error: null,
+    ...fields
+  } as DispatchRecord;
+}
+
+describe("percentile", () => {
+  it("uses the nearest rank", () => {
+    expect(percentile([], 50)).toBeNull();
+    expect(percentile([30, 10, 20, 40], 50)).toBe(20);
+    expect(percentile([30, 10, 20, 40], 95)).toBe(40);
+    expect(percentile([5], 0)).toBe(5);
+  });
+});
+
+describe("estimateTokens", () => {
+  it("counts four characters per token, rounded up", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("12345")).toBe(2);
+  });
+});
+
+describe("summarizeDispatches", () => {
+  const now = 100 * MINUTE;
+
+  it("measures throughput over recent batches and estimates the time left", () => {
+    const metrics = summarizeDispatches(
+      [
+        dispatch({ sentAt: now - 4 * MINUTE, completedAt: now - 3 * MINUTE }),
+        dispatch({ sentAt: now - 2 * MINUTE, completedAt: now - MINUTE }),
+        // Too old, failed, or a schema re-ask: not counted toward throughput.
+        dispatch({ sentAt: 0, completedAt: now - THROUGHPUT_WINDOW_MS - 1 }),
+        dispatch({ sentAt: now - MINUTE, completedAt: now, ok: false }),
+        dispatch({ kind: "repair", sentAt: now - MINUTE, completedAt: now, itemCount: 5 })
+      ],
+      40,
+      now
+    );
+    expect(metrics.itemsPerMinute).toBe(5);
+    expect(metrics.etaMs).toBe(8 * MINUTE);
+  });
+
+  it("reports latency per target over finished batches", () => {
+    const metrics = summarizeDispatches(
+      [
+        dispatch({ sentAt: 0, firstTextAt: 100, completedAt: 1000 }),
+        dispatch({ sentAt: 0, firstTextAt: 300, completedAt: 3000, outputTokens: 150 }),
+        dispatch({ target: "api", tabId: null, sentAt: 0, completedAt: 500, ok: false })
+      ],
+      0,
+      now
+    );
+    expect(metrics.itemsPerMinute).toBeNull();
+    expect(metrics.etaMs).toBeNull();
+    expect(metrics.latency).toEqual([
+      {
+        target: "gemini",
+        dispatches: 2,
+        p50Ms: 1000,
+        p95Ms: 3000,
+        firstTextP50Ms: 100,
+        avgInputTokens: 100,
+        avgOutputTokens: 100
+      },
+      {
+        target: "api",
+        dispatches: 1,
+        p50Ms: null,
+        p95Ms: null,
+        firstTextP50Ms: null,
+        avgInputTokens: 100,
+        avgOutputTokens: 0
+      }
+    ]);
+  });
+});
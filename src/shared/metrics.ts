@@ -0,0 +1,71 @@
+import type { DispatchMetrics, DispatchRecord, TargetLatency, TargetSite } from "./types";
+
+// Throughput is measured over dispatches that finished within this window.
+export const THROUGHPUT_WINDOW_MS = 10 * 60 * 1000;
+// Shorter spans make the rate jump around after the first batch.
+const MIN_THROUGHPUT_SPAN_MS = 60 * 1000;
+
+// Common rule of thumb for English text and JSON; good enough to compare sites and batch sizes.
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Nearest-rank percentile of `values` (p in 0..100); null for an empty list.
+export function percentile(values: number[], p: number): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+function average(values: number[]) {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function summarizeTarget(target: TargetSite, records: DispatchRecord[]): TargetLatency {
+  const finished = records.filter((r) => r.ok);
+  const durations = finished.map((r) => r.completedAt - r.sentAt);
+  const firstText = finished
+    .filter((r) => r.firstTextAt != null)
+    .map((r) => (r.firstTextAt as number) - r.sentAt);
+  return {
+    target,
+    dispatches: records.length,
+    p50Ms: percentile(durations, 50),
+    p95Ms: percentile(durations, 95),
+    firstTextP50Ms: percentile(firstText, 50),
+    avgInputTokens: Math.round(average(records.map((r) => r.inputTokens))),
+    avgOutputTokens: Math.round(average(finished.map((r) => r.outputTokens)))
+  };
+}
+
+// `dispatches` are the project's recent dispatches; `remaining` counts the items still to label.
+// Schema re-asks are left out so each item is counted once and latencies compare whole batches.
+export function summarizeDispatches(
+  dispatches: DispatchRecord[],
+  remaining: number,
+  now = Date.now()
+): DispatchMetrics {
+  const records = dispatches.filter((r) => r.kind === "batch");
+  const recent = records.filter((r) => r.ok && now - r.completedAt <= THROUGHPUT_WINDOW_MS);
+  let itemsPerMinute: number | null = null;
+  if (recent.length) {
+    const start = Math.min(...recent.map((r) => r.sentAt));
+    const span = Math.max(MIN_THROUGHPUT_SPAN_MS, now - start);
+    const items = recent.reduce((sum, r) => sum + r.itemCount, 0);
+    itemsPerMinute = (items / span) * 60 * 1000;
+  }
+  const etaMs =
+    itemsPerMinute && remaining > 0 ? Math.round((remaining / itemsPerMinute) * 60 * 1000) : null;
+
+  const byTarget = new Map<TargetSite, DispatchRecord[]>();
+  for (const record of records) {
+    const list = byTarget.get(record.target) ?? [];
+    list.push(record);
+    byTarget.set(record.target, list);
+  }
+  const latency = Array.from(byTarget, ([target, list]) => summarizeTarget(target, list));
+  return { itemsPerMinute, etaMs, latency };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { classifyError, computeRetryDelay } from "./retry";
+
+describe("classifyError", () => {
+  it("classes every send failure", () => {
+    expect(classifyError("tab closed", "send")).toBe("send_failed");
+    expect(classifyError("Timeout waiting for reply", "send")).toBe("timeout");
+  });
+
+  it("classes known parse errors only", () => {
+    expect(classifyError("batch_parse_failed", "parse")).toBe("batch_parse_failed");
+    expect(classifyError("missing_result_for_id", "parse")).toBe("missing_result");
+    expect(classifyError("schema_validation_failed", "parse")).toBe("schema_failed");
+    expect(classifyError("model said no", "parse")).toBeNull();
+  });
+});
+
+describe("computeRetryDelay", () => {
+  const noJitter = () => 0.5;
+
+  it("doubles after each attempt", () => {
+    expect([1, 2, 3].map((n) => computeRetryDelay(n, 1000, noJitter))).toEqual([1000, 2000, 4000]);
+  });
+
+  it("is jittered by up to 20% and never exceeds 30 minutes", () => {
+    expect(computeRetryDelay(40, 1000, noJitter)).toBe(30 * 60 * 1000);
+    expect(computeRetryDelay(40, 1000, () => 1)).toBe(30 * 60 * 1000);
+    expect(computeRetryDelay(12, 1000, () => 1)).toBe(30 * 60 * 1000);
+    expect(computeRetryDelay(1, 1000, () => 0)).toBe(800);
+    expect(computeRetryDelay(1, 1000, () => 1)).toBe(1200);
+  });
+});
@@ -0,0 +1,52 @@
+import type { RetryErrorClass } from "./types";
+
+export const RETRY_ERROR_CLASSES: RetryErrorClass[] = [
+  "timeout",
+  "send_failed",
+  "batch_parse_failed",
+  "missing_result",
+  "schema_failed"
+];
+
+export const DEFAULT_RETRY_ERROR_CLASSES: RetryErrorClass[] = [
+  "timeout",
+  "send_failed",
+  "batch_parse_failed",
+  "missing_result"
+];
+
+// Upper bound for a single backoff delay, however many attempts have been made.
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+// Each delay is randomly stretched or shrunk by up to this share so retries from one batch spread out.
+const RETRY_JITTER = 0.2;
+
+// Map a failure to the class the retry policy matches on. `stage` says whether the prompt never
+// produced a reply ("send") or the reply could not be used ("parse"). Errors the model reported
+// itself (an entry with ok: false) have no class and are never retried automatically.
+export function classifyError(
+  error: string | null | undefined,
+  stage: "send" | "parse"
+): RetryErrorClass | null {
+  const code = (error || "").trim();
+  if (/timeout/i.test(code)) return "timeout";
+  if (stage === "send") return "send_failed";
+  switch (code) {
+    case "parse_failed":
+    case "batch_parse_failed":
+      return "batch_parse_failed";
+    case "missing_result_for_id":
+    case "line_split_missing_entry":
+      return "missing_result";
+    case "schema_validation_failed":
+      return "schema_failed";
+    default:
+      return null;
+  }
+}
+
+// Exponential backoff: baseMs after the first failed attempt, doubling after each further one.
+export function computeRetryDelay(attempt: number, baseMs: number, random = Math.random) {
+  const exp = Math.max(0, baseMs) * 2 ** Math.max(0, attempt - 1);
+  const jitter = 1 + (random() * 2 - 1) * RETRY_JITTER;
+  return Math.round(Math.min(MAX_RETRY_DELAY_MS, exp * jitter));
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  compileFilters,
+  createRandom,
+  createStratifiedSampler,
+  MISSING_STRATUM,
+  planStrata,
+  stratumOf
+} from "./sampling";
+
+describe("createRandom", () => {
+  it("repeats the same sequence for the same seed", () => {
+    const a = createRandom("seed");
+    const b = createRandom("seed");
+    const c = createRandom("other");
+    const first = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(first);
+    expect([c(), c(), c()]).not.toEqual(first);
+    expect(first.every((x) => x >= 0 && x < 1)).toBe(true);
+  });
+});
+
+describe("planStrata", () => {
+  it("takes a share of every stratum, at least one row and at most the cap", () => {
+    expect(planStrata({ a: 100, b: 3, c: 0 }, 10, 0)).toEqual({ a: 10, b: 1, c: 0 });
+    expect(planStrata({ a: 100, b: 3 }, 50, 20)).toEqual({ a: 20, b: 2 });
+  });
+});
+
+describe("createStratifiedSampler", () => {
+  it("takes exactly the planned rows per stratum, the same ones for the same seed", () => {
+    const rows = Array.from({ length: 60 }, (_, idx) => (idx % 3 === 0 ? "x" : "y"));
+    const pick = (seed: string) => {
+      const sample = createStratifiedSampler({ x: 20, y: 40 }, { x: 5, y: 7 }, createRandom(seed));
+      return rows.map((stratum, idx) => (sample(stratum) ? idx : -1)).filter((idx) => idx >= 0);
+    };
+    const taken = pick("s");
+    expect(taken.filter((idx) => rows[idx] === "x")).toHaveLength(5);
+    expect(taken.filter((idx) => rows[idx] === "y")).toHaveLength(7);
+    expect(pick("s")).toEqual(taken);
+  });
+});
+
+describe("compileFilters", () => {
+  it("requires every filter to pass", () => {
+    const keep = compileFilters([
+      { key: "lang", op: "equals", value: "en", minLength: 0, maxLength: 0 },
+      { key: "text", op: "length", value: "", minLength: 3, maxLength: 5 },
+      { key: "", op: "exists", value: "", minLength: 0, maxLength: 0 }
+    ]);
+    expect(keep({ lang: "en", text: "abcd" })).toBe(true);
+    expect(keep({ lang: "de", text: "abcd" })).toBe(false);
+    expect(keep({ lang: "en", text: "abcdef" })).toBe(false);
+    expect(keep(null)).toBe(false);
+  });
+
+  it("throws on an invalid regular expression", () => {
+    expect(() =>
+      compileFilters([{ key: "text", op: "regex", value: "(", minLength: 0, maxLength: 0 }])
+    ).toThrow(/invalid regular expression/);
+  });
+});
+
+describe("stratumOf", () => {
+  it("puts rows without the key in the missing stratum", () => {
+    expect(stratumOf({ meta: { lang: "en" } }, "meta.lang")).toBe("en");
+    expect(stratumOf({ lang: "" }, "lang")).toBe(MISSING_STRATUM);
+    expect(stratumOf({ lang: "en" }, " ")).toBe("");
+  });
+});
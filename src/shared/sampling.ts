@@ -0,0 +1,122 @@
+import { readField } from "./consensus";
+import type { ImportFilter } from "./types";
+
+// Row selection at import: the worker applies the filters and tags each row with its stratum, the
+// importer samples every stratum separately.
+
+export interface ImportSelection {
+  filters: ImportFilter[];
+  // Empty puts every row in the single "" stratum.
+  stratifyKey: string;
+}
+
+// Stratum of rows that lack the stratify key (or hold null / an empty string there).
+export const MISSING_STRATUM = "(missing)";
+
+type RowPredicate = (row: Record<string, unknown>) => boolean;
+
+function fieldText(value: unknown) {
+  if (value == null) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function compileFilter(filter: ImportFilter): RowPredicate {
+  const key = filter.key.trim();
+  switch (filter.op) {
+    case "exists":
+      return (row) => readField(row, key) !== undefined;
+    case "equals":
+      return (row) => {
+        const value = readField(row, key);
+        return value !== undefined && fieldText(value) === filter.value;
+      };
+    case "regex": {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(filter.value);
+      } catch (err: any) {
+        throw new Error(`Filter on ${key}: invalid regular expression (${err?.message || err})`);
+      }
+      return (row) => {
+        const value = readField(row, key);
+        return value !== undefined && pattern.test(fieldText(value));
+      };
+    }
+    case "length":
+      return (row) => {
+        const value = readField(row, key);
+        if (value === undefined) return false;
+        const length = fieldText(value).length;
+        return length >= filter.minLength && (filter.maxLength <= 0 || length <= filter.maxLength);
+      };
+  }
+}
+
+// Filters without a key are ignored. Throws on an invalid regular expression, so a bad filter stops
+// the import before any row is read.
+export function compileFilters(filters: ImportFilter[]) {
+  const predicates = filters.filter((f) => f.key.trim()).map(compileFilter);
+  // Rows that are not JSON objects only pass when there is nothing to check.
+  return (row: Record<string, unknown> | null) =>
+    !predicates.length || (row !== null && predicates.every((p) => p(row)));
+}
+
+export function stratumOf(row: Record<string, unknown> | null, stratifyKey: string) {
+  if (!stratifyKey.trim()) return "";
+  const value = row ? readField(row, stratifyKey.trim()) : undefined;
+  const text = fieldText(value);
+  return text ? text : MISSING_STRATUM;
+}
+
+// Rows to take from each stratum: `percent` of it (at least one row), at most `cap` (0 = no cap).
+export function planStrata(counts: Record<string, number>, percent: number, cap: number) {
+  const targets: Record<string, number> = {};
+  for (const [stratum, count] of Object.entries(counts)) {
+    let target = count > 0 ? Math.max(1, Math.round((count * percent) / 100)) : 0;
+    if (cap > 0) target = Math.min(cap, target);
+    targets[stratum] = Math.min(count, target);
+  }
+  return targets;
+}
+
+// FNV-1a, to turn the seed text into a 32-bit state.
+function seedState(seed: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 16777619);
+  }
+  return h >>> 0;
+}
+
+// mulberry32; an empty seed falls back to Math.random.
+export function createRandom(seed: string): () => number {
+  if (!seed) return Math.random;
+  let state = seedState(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Selection sampling per stratum: each row is taken with probability still-needed / still-left, so
+// exactly the planned number of rows is taken from every stratum in one pass, in file order.
+export function createStratifiedSampler(
+  counts: Record<string, number>,
+  targets: Record<string, number>,
+  random: () => number
+) {
+  const left = { ...counts };
+  const need = { ...targets };
+  return (stratum: string) => {
+    const remaining = left[stratum] ?? 0;
+    const wanted = need[stratum] ?? 0;
+    left[stratum] = remaining - 1;
+    if (wanted <= 0) return false;
+    const take = wanted >= remaining || random() < wanted / remaining;
+    if (take) need[stratum] = wanted - 1;
+    return take;
+  };
+}
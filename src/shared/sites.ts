@@ -0,0 +1,47 @@
+import type { WebSite } from "./types";
+
+// Chat frontends the labeler can drive in a tab. Adding a site means a WebSite member, an entry
+// here, a content-script adapter (src/content/sites) and its URL in the manifest's
+// host_permissions and content_scripts matches.
+export interface SiteInfo {
+  id: WebSite;
+  label: string;
+  // Chrome match patterns for the site's chat pages.
+  matches: string[];
+  // Opened when no chat tab is available.
+  homeUrl: string;
+}
+
+export const SITES: Record<WebSite, SiteInfo> = {
+  gemini: {
+    id: "gemini",
+    label: "Gemini",
+    matches: ["https://gemini.google.com/*"],
+    homeUrl: "https://gemini.google.com/app"
+  },
+  chatgpt: {
+    id: "chatgpt",
+    label: "ChatGPT",
+    matches: ["https://chatgpt.com/*"],
+    homeUrl: "https://chatgpt.com/"
+  }
+};
+
+export const SITE_IDS = Object.keys(SITES) as WebSite[];
+
+// Site opened when no chat tab is open at all.
+export const DEFAULT_SITE: WebSite = "gemini";
+
+function matchesPattern(url: string, pattern: string) {
+  return url.startsWith(pattern.replace(/\*$/, ""));
+}
+
+export function siteForUrl(url: string | null | undefined): WebSite | null {
+  if (!url) return null;
+  return SITE_IDS.find((id) => SITES[id].matches.some((p) => matchesPattern(url, p))) ?? null;
+}
+
+export function siteLabel(target: string) {
+  if (target === "api") return "API";
+  return SITES[target as WebSite]?.label ?? target;
+}
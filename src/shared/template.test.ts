@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildBatchPrompt,
+  buildFollowUpPrompt,
+  hasPlaceholder,
+  renderBatchItems,
+  renderTemplate
+} from "./template";
+import type { QueueItem } from "./types";
+
+function item(id: string, text: string): QueueItem {
+  return {
+    id: `p:${id}`,
+    projectId: "p",
+    seq: 0,
+    prompt: JSON.stringify({ id, text }),
+    sample: { id, text },
+    status: "pending",
+    target: "auto",
+    retries: 0,
+    createdAt: 0,
+    updatedAt: 0
+  };
+}
+
+describe("renderTemplate", () => {
+  it("fills known placeholders and dotted paths", () => {
+    expect(renderTemplate("{{ a }}-{{b.c}}-{{b.missing}}", { a: 1, b: { c: [2] } })).toBe("1-[2]-");
+  });
+
+  it("leaves unknown placeholders and other braces alone", () => {
+    expect(renderTemplate('{{unknown}} {{"x": 1}}', {})).toBe('{{unknown}} {{"x": 1}}');
+  });
+});
+
+describe("hasPlaceholder", () => {
+  it("matches the name and its paths only", () => {
+    expect(hasPlaceholder("{{record.label}}", "record")).toBe(true);
+    expect(hasPlaceholder("{{records}}", "record")).toBe(false);
+  });
+});
+
+describe("buildBatchPrompt", () => {
+  const items = [item("a", "first"), item("b", "second")];
+
+  it("appends the samples after the prompt by default", () => {
+    expect(buildBatchPrompt(items, "Label these.")).toBe(
+      'Label these.\n\n{"id":"a","text":"first"}\n{"id":"b","text":"second"}'
+    );
+  });
+
+  it("places the samples at {{batch}} with count and ids", () => {
+    const prompt = buildBatchPrompt(
+      items,
+      "{{count}} samples ({{ids}}):\n{{batch}}",
+      "{{index}}. {{sample.text}}"
+    );
+    expect(prompt).toBe("2 samples (a, b):\n1. first\n2. second");
+  });
+
+  it("reads {{record.*}} from the source records", () => {
+    const records = new Map([["p:a", { text: "first", lang: "en" }]]);
+    expect(renderBatchItems([items[0]], "{{id}} {{record.lang}}", records)).toBe("a en");
+  });
+
+  it("sends only the samples in follow-up prompts", () => {
+    expect(buildFollowUpPrompt([items[0]], "{{sample.text}}")).toMatch(
+      /^Apply the same instructions as before to the next 1 samples.*\n\nfirst$/
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import type { QueueItem, SourceRecord } from "./types";
+
+// Placeholders look like {{name}} or {{name.path.to.field}}. Anything else between double braces
+// (e.g. a literal JSON example) is left untouched, as are placeholders whose root name is unknown.
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w-]*(?:\.[\w-]+)*)\s*\}\}/g;
+
+export const DEFAULT_ITEM_TEMPLATE = "{{json}}";
+
+export type TemplateContext = Record<string, unknown>;
+
+// Original import records by queue item id, for {{record.<key>}} in the per-sample template.
+export type SourceRecordMap = Map<string, SourceRecord["data"]>;
+
+function stringifyValue(value: unknown) {
+  if (value == null) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return JSON.stringify(value);
+}
+
+function resolvePath(context: TemplateContext, path: string[]): { found: boolean; value: unknown } {
+  const [root, ...rest] = path;
+  if (!Object.prototype.hasOwnProperty.call(context, root)) return { found: false, value: undefined };
+  let value: unknown = context[root];
+  for (const key of rest) {
+    if (value == null || typeof value !== "object") return { found: true, value: undefined };
+    value = (value as Record<string, unknown>)[key];
+  }
+  return { found: true, value };
+}
+
+export function renderTemplate(template: string, context: TemplateContext) {
+  return template.replace(PLACEHOLDER, (match, expr: string) => {
+    const { found, value } = resolvePath(context, expr.split("."));
+    return found ? stringifyValue(value) : match;
+  });
+}
+
+export function hasPlaceholder(template: string, name: string) {
+  return Array.from(template.matchAll(PLACEHOLDER)).some(
+    (m) => m[1] === name || m[1].startsWith(`${name}.`)
+  );
+}
+
+function parsePromptPayload(item: QueueItem): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(item.prompt || "");
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) return parsed;
+  } catch {
+    /* ignore */
+  }
+  return {};
+}
+
+export function buildItemContext(
+  item: QueueItem,
+  index: number,
+  record?: SourceRecord["data"]
+): TemplateContext {
+  const sampleId = item.sample.id || item.id;
+  return {
+    id: sampleId,
+    index: index + 1,
+    json: (item.prompt || "").trim(),
+    sample: { ...item.sample, ...parsePromptPayload(item), id: sampleId },
+    // Every column of the imported line, including those not selected as input keys.
+    record: record ?? null
+  };
+}
+
+export function usesSourceRecord(itemTemplate?: string | null) {
+  return Boolean(itemTemplate) && hasPlaceholder(itemTemplate!, "record");
+}
+
+export function renderBatchItems(
+  items: QueueItem[],
+  itemTemplate?: string | null,
+  records?: SourceRecordMap
+) {
+  const template = itemTemplate?.trim() ? itemTemplate : DEFAULT_ITEM_TEMPLATE;
+  return items
+    .map((item, idx) =>
+      renderTemplate(template, buildItemContext(item, idx, records?.get(item.id))).trim()
+    )
+    .filter(Boolean)
+    .join("\n");
+}
+
+// The prompt may place the samples anywhere via {{batch}}; without it they are appended after
+// the prompt, as before templates existed.
+export function buildBatchPrompt(
+  items: QueueItem[],
+  prompt: string,
+  itemTemplate?: string | null,
+  records?: SourceRecordMap
+) {
+  const body = renderBatchItems(items, itemTemplate, records);
+  const context: TemplateContext = {
+    batch: body,
+    count: items.length,
+    ids: items.map((item) => item.sample.id || item.id).join(", ")
+  };
+  const trimmedPrompt = renderTemplate(prompt, context).trim();
+  if (hasPlaceholder(prompt, "batch")) return trimmedPrompt;
+  const prefix = trimmedPrompt ? `${trimmedPrompt}\n\n` : "";
+  return `${prefix}${body}`;
+}
+
+// Sent instead of the full prompt once the rules have gone out earlier in the same conversation.
+export const FOLLOW_UP_PROMPT =
+  "Apply the same instructions as before to the next {{count}} samples and answer in the same format.\n\n{{batch}}";
+
+export function buildFollowUpPrompt(
+  items: QueueItem[],
+  itemTemplate?: string | null,
+  records?: SourceRecordMap
+) {
+  return buildBatchPrompt(items, FOLLOW_UP_PROMPT, itemTemplate, records);
+}
@@ -1,7 +1,13 @@
-export type TargetSite = "gemini" | "chatgpt";
+import type { SchemaValidationError } from "./jsonSchema";
+
+// Chat frontends driven through a browser tab.
+export type WebSite = "gemini" | "chatgpt";
+// "api" sends prompts to an OpenAI-compatible HTTP endpoint instead of a chat tab.
+export type TargetSite = WebSite | "api";
 export type AutoTarget = TargetSite | "auto";
 
-export type QueueStatus = "pending" | "inflight" | "done" | "error";
+// "dead" is terminal: the item failed with a retryable error on every allowed attempt.
+export type QueueStatus = "pending" | "inflight" | "done" | "error" | "dead";
 
 export interface Sample {
   id: string;
@@ -10,71 +16,465 @@ export interface Sample {
   [key: string]: unknown;
 }
 
+// The complete imported line of a sample (the parsed JSON object, or the raw text of a line that
+// was not one). Stored apart from the queue so queue rows and their indexes stay small; keyed by
+// makeQueueId(projectId, sampleId), shared by all consensus runs of the sample.
+export interface SourceRecord {
+  id: string;
+  projectId: string;
+  sampleId: string;
+  data: Record<string, unknown> | string;
+  // Hash of the sample's input text, for duplicate-content checks on later imports.
+  contentHash?: string;
+  createdAt: number;
+}
+
+export interface ProjectDoc {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Where a queue item sits in a sample that was split because it did not fit the prompt budget.
+export interface SampleChunk {
+  // Id of the whole sample; each part's own sample id is `<sampleId>~<part>`.
+  sampleId: string;
+  // 1-based.
+  part: number;
+  parts: number;
+}
+
 export interface QueueItem {
   id: string;
+  projectId: string;
   // Stable import order (used for deterministic dispatch ordering).
   seq: number;
   prompt: string;
   sample: Sample;
   status: QueueStatus;
+  // "auto" lets any tab claim the item; a concrete site pins it (used for cross-site consensus).
   target: AutoTarget;
+  // Consensus run index and total runs for this sample (absent when consensus is off).
+  run?: number;
+  runCount?: number;
+  chunk?: SampleChunk;
+  // Set at import when the sample does not fit the prompt budget; Retry errors leaves it failed
+  // since it would only go out oversized again.
+  oversized?: boolean;
+  // Failed attempts so far; the retry policy moves the item to "dead" once it reaches the maximum.
   retries: number;
   lastError?: string | null;
+  // A pending retry is not claimed before this time (backoff).
+  nextAttemptAt?: number | null;
   createdAt: number;
   updatedAt: number;
 }
 
 export interface ResultRecord {
   id: string;
+  projectId: string;
   sampleId: string;
   rawResponse: string;
   parsed?: unknown;
   ok: boolean;
   error?: string | null;
+  // Populated when the parsed entry did not satisfy the prompt's JSON Schema.
+  validationErrors?: SchemaValidationError[] | null;
   target: TargetSite;
+  run?: number;
+  // Reasons this result should be looked at by a human (empty/absent = not flagged).
+  reviewFlags?: ReviewFlag[];
+  // Only on results written before the message HTML moved to their dispatch.
+  rawHtml?: string | null;
+  // Set on the result of one part of a split sample; the parts' outputs are merged into a result
+  // for the whole sample (with chunkCount set) once every part succeeded.
+  chunk?: SampleChunk;
+  chunkCount?: number;
+  // Dispatch whose reply this result was read from (absent for merged results of split samples).
+  dispatchId?: string | null;
+  // Prompt version the batch was built from (null when the project had no saved version).
+  promptVersionId?: string | null;
+  // Set when the batch was routed to its prompt version by an experiment.
+  experiment?: boolean;
   createdAt: number;
 }
 
+// One prompt sent to a chat tab or the API (a batch or a schema re-ask), with its timings.
+export interface DispatchRecord {
+  id: string;
+  projectId: string;
+  target: TargetSite;
+  // null for API requests.
+  tabId: number | null;
+  // The tab's address once the reply was in (which names the conversation on most sites), or the
+  // API base URL.
+  url?: string | null;
+  workerKey: string;
+  // Changes whenever the worker starts a new chat.
+  conversationId?: string;
+  // "repair" is a schema re-ask for part of a batch in the same chat.
+  kind: "batch" | "repair";
+  itemCount: number;
+  // Queue ids of the items in the prompt.
+  itemIds?: string[];
+  // The exact text sent, and its SHA-256 (hex) for comparing prompts across dispatches.
+  prompt?: string;
+  promptHash?: string;
+  promptVersionId?: string | null;
+  experiment?: boolean;
+  // HTML of the assistant message the reply was read from (chat tabs only), for debugging capture;
+  // the results read from the reply reference it through their dispatchId.
+  rawHtml?: string | null;
+  sentAt: number;
+  // First streamed reply text seen (tabs only, to within the stream interval).
+  firstTextAt: number | null;
+  completedAt: number;
+  promptChars: number;
+  replyChars: number;
+  // Reported by the API when available, otherwise estimated from the character counts.
+  inputTokens: number;
+  outputTokens: number;
+  ok: boolean;
+  error?: string | null;
+  // Entries found in the reply once it was parsed (null when it was kept as one batch-level
+  // result); absent for re-asks and failed sends.
+  outputCount?: number | null;
+}
+
+export type ReviewFlag = "parse_fallback" | "schema_failed" | "disagreement" | "low_confidence";
+
+export type ReviewDecision = "accepted" | "edited" | "rejected";
+
+// A reviewer's decision on one result; keyed by result id.
+export interface ReviewRecord {
+  id: string;
+  projectId: string;
+  sampleId: string;
+  decision: ReviewDecision;
+  // Replacement output_text when the reviewer edited the label.
+  editedOutput?: string | null;
+  // createdAt of the result the decision was made on; a retried sample replaces its result under
+  // the same id, and the decision does not carry over to the new reply.
+  resultCreatedAt?: number;
+  reviewedAt: number;
+}
+
+export interface ConsensusLabel {
+  resultId: string;
+  run: number;
+  target: TargetSite;
+  // Normalized label (see shared/consensus.ts); null when the field is missing.
+  label: string | null;
+}
+
+// Agreement across the consensus runs of one sample.
+export interface ConsensusRecord {
+  id: string;
+  projectId: string;
+  sampleId: string;
+  field: string;
+  expectedRuns: number;
+  labels: ConsensusLabel[];
+  majority: string | null;
+  // Share of labeled runs that agree with the majority label.
+  agreement: number;
+  unanimous: boolean;
+  disagreement: boolean;
+  updatedAt: number;
+}
+
+// Keyed by project id.
 export interface PromptDoc {
   id: string;
+  // Template; may reference {{batch}}, {{count}} and {{ids}}.
   prompt: string;
+  // Per-sample sub-template used to render each item into {{batch}} (defaults to {{json}}).
+  itemTemplate?: string;
+  // Optional JSON Schema (raw JSON text) each parsed output entry must satisfy.
+  schema?: string;
+  // The saved version runs use. The fields above are the editor's draft, which may have changed
+  // since; absent for projects that never saved a version (runs then use the draft).
+  versionId?: string | null;
   updatedAt: number;
 }
 
+// An immutable snapshot of a project's prompt, template and schema.
+export interface PromptVersion {
+  id: string;
+  projectId: string;
+  // 1, 2, ... per project.
+  number: number;
+  name: string;
+  prompt: string;
+  itemTemplate: string;
+  schema: string;
+  createdAt: number;
+}
+
+// Keyed by project id.
 export interface SettingsDoc {
   id: string;
   // How long to wait after assistant finishes before sending next message (ms)
   responseDelayMs: number;
-  // How many samples to send per prompt
+  // How many samples to send per prompt (the starting size when adaptive sizing is on)
   batchSize: number;
+  // Shrink the batch after truncated / mismatched replies and grow it after clean ones,
+  // staying within [minBatchSize, maxBatchSize].
+  adaptiveBatchSize: boolean;
+  minBatchSize: number;
+  maxBatchSize: number;
   // Which top-level JSON keys to extract into input_text on import.
   inputKeys: string[];
   // Percentage of imported samples to enqueue (1-100).
   // 100 preserves original file order; lower values randomly sample that share of lines.
   samplePercent: number;
+  // Empty draws a new sample on every import; any other text makes sampling reproducible.
+  sampleSeed: string;
+  // Sample each value of this key separately (samplePercent applies within each value), keeping
+  // at most stratumCap rows per value (0 = no cap).
+  stratifyKey: string;
+  stratumCap: number;
+  importFilters: ImportFilter[];
+  // Upper bound on the characters of one prompt (0 = no limit). Batches stop short of it; samples
+  // too long on their own are handled at import as oversizedSamples says, with chunkOverlapChars
+  // of text repeated between consecutive parts.
+  maxPromptChars: number;
+  oversizedSamples: OversizedSamplePolicy;
+  chunkOverlapChars: number;
+  // Applies on import: handling of already-queued ids, and whether samples whose input text
+  // matches an earlier one are dropped.
+  duplicateIdPolicy: DuplicateIdPolicy;
+  dedupeContent: boolean;
   // Whether to enforce output count == input batch size
   outputCountMode: OutputCountMode;
+  // How many corrective follow-ups to send in the same chat when entries fail the schema (0 = off).
+  schemaRepairRounds: number;
+  // Maximum number of chat tabs dispatching in parallel (1 = only the detected tab).
+  maxParallelTabs: number;
+  // Applies on import: dispatch each sample to both sites, or N times to any site.
+  consensusMode: ConsensusMode;
+  consensusRuns: number;
+  // Site every repeat run goes to in web mode, so the runs of a sample are compared on one model.
+  consensusRepeatSite: WebSite;
+  // Parsed field compared across runs (dotted paths allowed).
+  consensusField: string;
+  // Results whose parsed confidence field is below the threshold are flagged for review (0 = off).
+  reviewConfidenceField: string;
+  reviewConfidenceThreshold: number;
+  // Automatic retries: total attempts per item, delay before the first retry (doubled after each
+  // further failure, with jitter) and which error classes are retried at all.
+  retryMaxAttempts: number;
+  retryBaseDelayMs: number;
+  retryErrorClasses: RetryErrorClass[];
+  // How long a tab rests after its site reports a quota limit or captcha.
+  siteCooldownMs: number;
+  // Start a new conversation after this many batches or once prompts plus replies in it pass this
+  // many characters (0 = no limit). rulesOncePerChat sends the full prompt only as the first
+  // message of each conversation; later batches carry just the samples.
+  newChatEveryBatches: number;
+  newChatMaxChars: number;
+  rulesOncePerChat: boolean;
+  // Where batches go: open chat tabs, or an OpenAI-compatible chat completions endpoint.
+  dispatchMode: DispatchMode;
+  apiBaseUrl: string;
+  apiModel: string;
+  // Kept in the local extension database only.
+  apiKey: string;
+  // Results export: file format, which results to include, whether to add the imported sample's
+  // fields next to each result, and gzip compression.
+  exportFormat: ExportFormat;
+  exportRows: ExportRowFilter;
+  exportJoinInput: boolean;
+  exportGzip: boolean;
+  // Only results of this prompt version ("" = any).
+  exportPromptVersionId: string;
+  // Prompt experiment: each listed version gets experimentPercent % of the samples, picked by a
+  // hash of the sample id; while it is set, only those samples are dispatched (none = off).
+  experimentVersionIds: string[];
+  experimentPercent: number;
+  // Reference label in the imported records and the parsed field it is compared with.
+  goldKey: string;
+  goldField: string;
   updatedAt: number;
 }
 
 export type OutputCountMode = "match_input" | "allow_mismatch";
 
+export type ConsensusMode = "off" | "sites" | "repeat";
+
+export type DispatchMode = "web" | "api";
+
+// "flat_jsonl" and the delimited formats spread nested fields into dotted top-level columns.
+export type ExportFormat = "jsonl" | "flat_jsonl" | "csv" | "tsv";
+
+export type ExportRowFilter = "all" | "ok" | "error";
+
+// What an import does with a sample whose id is already queued in the project (or earlier in the
+// same file): keep the existing item, replace it, or import it under a new `<id>_<n>` id.
+export type DuplicateIdPolicy = "skip" | "overwrite" | "suffix";
+
+// What an import does with a sample that alone exceeds maxPromptChars: queue it as an error, or
+// split it into parts that fit.
+export type OversizedSamplePolicy = "flag" | "chunk";
+
+export type ImportFilterOp = "equals" | "regex" | "length" | "exists";
+
+// One condition on an imported row; a row is imported only when it meets all of them. `key` may be
+// a dotted path. `value` is used by equals / regex, `minLength` / `maxLength` (0 = no maximum) by
+// length, which measures the value as text.
+export interface ImportFilter {
+  key: string;
+  op: ImportFilterOp;
+  value: string;
+  minLength: number;
+  maxLength: number;
+}
+
+export type RetryErrorClass =
+  | "timeout"
+  | "send_failed"
+  | "batch_parse_failed"
+  | "missing_result"
+  | "schema_failed";
+
+// Effective batch size of the current run and why it last changed.
+export interface BatchSizingStatus {
+  adaptive: boolean;
+  size: number;
+  reason: string;
+  updatedAt: number;
+}
+
+// "cooldown": the site showed a quota, captcha or error state and the tab rests until cooldownUntil.
+export type DispatchWorkerState = "idle" | "busy" | "waiting" | "cooldown" | "failed";
+
+// Page states a content script reports instead of a reply.
+export type SiteIssueKind = "quota" | "captcha" | "site_error";
+
+// Content script reply to a run_prompt message.
+export interface RunPromptResponse {
+  ok: boolean;
+  reply?: string;
+  // The assistant message's HTML; `reply` is its serialized text.
+  rawHtml?: string;
+  // Token counts reported by an API backend.
+  usage?: { inputTokens: number; outputTokens: number };
+  error?: string;
+  errorKind?: SiteIssueKind;
+  sampleId?: string;
+}
+
+// Per-tab dispatcher status shown in the side panel.
+export interface DispatchWorkerStatus {
+  key: string;
+  // null for API workers.
+  tabId: number | null;
+  target: TargetSite;
+  state: DispatchWorkerState;
+  batches: number;
+  items: number;
+  // Consecutive failed batches; the tab leaves rotation at a fixed limit.
+  failures: number;
+  // Batches answered in the chat currently open (see newChatEveryBatches).
+  conversationBatches?: number;
+  lastError?: string | null;
+  cooldownUntil?: number | null;
+  updatedAt: number;
+}
+
 export interface StatsSnapshot {
   pending: number;
   inflight: number;
   done: number;
   error: number;
+  dead: number;
   running?: boolean;
+  // Project the dispatcher is currently working on (if running).
+  runningProjectId?: string | null;
+  workers?: DispatchWorkerStatus[];
+  batchSizing?: BatchSizingStatus;
+  metrics?: DispatchMetrics;
+}
+
+export interface TargetLatency {
+  target: TargetSite;
+  dispatches: number;
+  // Send to completion; null until a dispatch finished.
+  p50Ms: number | null;
+  p95Ms: number | null;
+  // Send to first streamed text.
+  firstTextP50Ms: number | null;
+  avgInputTokens: number;
+  avgOutputTokens: number;
+}
+
+// One prompt version's showing in an experiment; rates are null until there is something to count.
+export interface VariantSummary {
+  versionId: string;
+  results: number;
+  parseRate: number | null;
+  batches: number;
+  // Share of multi-item batches whose reply held a different number of entries.
+  countMismatchRate: number | null;
+  p50Ms: number | null;
+  // Parsed results whose sample has a gold label, and the share of them that match it.
+  goldCount: number;
+  accuracy: number | null;
+}
+
+export interface ClassMetrics {
+  label: string;
+  // Results whose gold label is this one, and results predicted as this one.
+  support: number;
+  predicted: number;
+  precision: number | null;
+  recall: number | null;
+}
+
+// Parsed outputs compared with the gold labels of the imported data. labels, matrix and classes
+// stay empty when there are too many distinct labels to treat them as categories.
+export interface GoldEvaluation {
+  total: number;
+  correct: number;
+  accuracy: number | null;
+  labels: string[];
+  // matrix[gold][predicted], indexed like labels.
+  matrix: number[][];
+  classes: ClassMetrics[];
+}
+
+// Derived from recent dispatch records of one project.
+export interface DispatchMetrics {
+  // Items answered per minute over the recent window; null before any batch finished.
+  itemsPerMinute: number | null;
+  // Time left for the pending and in-flight items at that rate.
+  etaMs: number | null;
+  latency: TargetLatency[];
 }
 
 export type BackgroundMessage =
-  | { type: "control:start"; settings: Omit<SettingsDoc, "id" | "updatedAt"> }
+  | {
+      type: "control:start";
+      projectId: string;
+      settings: Omit<SettingsDoc, "id" | "updatedAt">;
+    }
   | { type: "control:pause" }
-  | { type: "prompt:update"; prompt: string }
-  | { type: "stats:request" }
+  | {
+      type: "prompt:update";
+      projectId: string;
+      prompt: string;
+      itemTemplate?: string;
+      schema?: string;
+      versionId?: string | null;
+    }
+  | { type: "stats:request"; projectId: string }
   | { type: "queue:flush" } // notify background new data arrived
   | { type: "detect:target" };
 
+// Posted by content scripts over a runtime port while a reply is still being generated.
+export type ReplyStreamMessage = { type: "reply_chunk"; streamId: string; text: string };
+
 export type BackgroundResponse =
   | { ok: true; type: "control:start" | "control:pause" | "prompt:update" }
   | { ok: true; type: "stats:request"; stats: StatsSnapshot }
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  createRecordParser,
+  detectImportFormat,
+  type ImportFormat,
+  type ImportRecord
+} from "./importFormats";
+
+// Feeds `text` in chunks of `size` characters, so records split across chunks are covered too.
+function parse(format: ImportFormat, text: string, size = 3) {
+  const records: ImportRecord[] = [];
+  const parser = createRecordParser(format, (record) => records.push(record));
+  for (let i = 0; i < text.length; i += size) parser.push(text.slice(i, i + size));
+  parser.end();
+  return records;
+}
+
+describe("detectImportFormat", () => {
+  it("goes by the extension unless the content disagrees", () => {
+    expect(detectImportFormat("a.csv", "id,text\n1,x")).toBe("csv");
+    expect(detectImportFormat("a.jsonl.gz", '{"id":1}\n{"id":2}')).toBe("jsonl");
+    expect(detectImportFormat("a.json", '{"id":1}\n{"id":2}')).toBe("jsonl");
+    expect(detectImportFormat("a.json", '{"rows": [{"row_idx": 0, "row": {}}]}')).toBe("json");
+    expect(detectImportFormat("a.txt", "[1, 2]")).toBe("json");
+  });
+
+  it("judges files without a known extension by content", () => {
+    expect(detectImportFormat("data", "id\ttext\n1\tx")).toBe("tsv");
+    expect(detectImportFormat("data", "id,text\n1,x")).toBe("csv");
+    expect(detectImportFormat("data", "just some text")).toBe("txt");
+  });
+});
+
+describe("CSV and TSV", () => {
+  it("reads quoted fields with delimiters, quotes and line breaks", () => {
+    const csv = '\uFEFFid,text,text\r\n1,"a, ""b""\nc",x\r\n\r\n2,plain\n';
+    expect(parse("csv", csv)).toEqual([
+      { id: "1", text: 'a, "b"\nc', text_2: "x" },
+      { id: "2", text: "plain" }
+    ]);
+  });
+
+  it("reads a last row without a line break and names extra columns", () => {
+    expect(parse("tsv", "id\ttext\n1\tx\ty")).toEqual([{ id: "1", text: "x", column_3: "y" }]);
+  });
+
+  it("rejects an unterminated quoted field", () => {
+    expect(() => parse("csv", 'id,text\n1,"open')).toThrow(/Unterminated/);
+  });
+});
+
+describe("JSON", () => {
+  it("emits the elements of a top-level array", () => {
+    expect(parse("json", '[{"id": 1, "text": "a, ]"}, "plain", 3]')).toEqual([
+      { id: 1, text: "a, ]" },
+      { text: "plain" },
+      { text: "3" }
+    ]);
+  });
+
+  it("unwraps the row list of a datasets-server response", () => {
+    const json = JSON.stringify({
+      features: [{ name: "text" }],
+      rows: [
+        { row_idx: 0, row: { text: "a" } },
+        { row_idx: 1, row: { text: "b" } }
+      ]
+    });
+    expect(parse("json", json, 7)).toEqual([{ text: "a" }, { text: "b" }]);
+  });
+
+  it("rejects truncated or row-less files", () => {
+    expect(() => parse("json", '[{"id": 1},')).toThrow(/not closed/);
+    expect(() => parse("json", '{"id": 1}')).toThrow(/no top-level array/);
+  });
+});
+
+describe("JSONL and plain text", () => {
+  it("emits non-empty lines", () => {
+    expect(parse("jsonl", '{"id":1}\n\n{"id":2}')).toEqual(['{"id":1}', '{"id":2}']);
+    expect(parse("txt", "first\r\n  \nsecond")).toEqual([{ text: "first" }, { text: "second" }]);
+  });
+});
@@ -0,0 +1,301 @@
+// Incremental parsers for every import format. Each one is fed decoded text chunk by chunk and
+// emits one record per sample: the raw line for JSONL (parsed later, like before other formats
+// existed) and an object for everything else.
+
+export type ImportFormat = "jsonl" | "csv" | "tsv" | "json" | "txt";
+
+export type ImportRecord = Record<string, unknown> | string;
+
+export interface RecordParser {
+  push(text: string): void;
+  // Flush the last record; throws when the input ended in an unusable state.
+  end(): void;
+}
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  jsonl: "JSONL",
+  csv: "CSV",
+  tsv: "TSV",
+  json: "JSON",
+  txt: "plain text"
+};
+
+// Enough of the file to tell the formats apart.
+export const SNIFF_LENGTH = 4096;
+
+// Keys whose array holds the rows in wrapped JSON exports, e.g. the Hugging Face datasets-server
+// response `{"features": [...], "rows": [{"row_idx": 0, "row": {...}}]}`.
+const ROW_LIST_KEYS = ["rows", "data", "examples", "instances", "records", "items"];
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+  jsonl: "jsonl",
+  ndjson: "jsonl",
+  csv: "csv",
+  tsv: "tsv",
+  tab: "tsv",
+  json: "json",
+  txt: "txt",
+  text: "txt"
+};
+
+function formatFromName(fileName: string): ImportFormat | null {
+  const ext = fileName.toLowerCase().replace(/\.gz$/, "").split(".").pop() || "";
+  return EXTENSION_FORMATS[ext] ?? null;
+}
+
+function parseObjectLine(line: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(line);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// The extension decides unless the content clearly disagrees (a .json file that is really JSONL,
+// or JSON saved as .txt); files without a known extension are judged by content alone.
+export function detectImportFormat(fileName: string, head: string): ImportFormat {
+  const byName = formatFromName(fileName);
+  const text = head.replace(/^\uFEFF/, "");
+  const trimmed = text.trimStart();
+  const firstLine = trimmed.split(/\r?\n/, 1)[0] ?? "";
+  if (trimmed.startsWith("[")) {
+    return byName === "csv" || byName === "tsv" ? byName : "json";
+  }
+  if (trimmed.startsWith("{")) {
+    if (byName === "csv" || byName === "tsv") return byName;
+    // One complete object on the first line means one object per line, unless it is a small
+    // single-line wrapper around a row list.
+    const first = parseObjectLine(firstLine);
+    if (!first) return "json";
+    return ROW_LIST_KEYS.some((key) => Array.isArray(first[key])) ? "json" : "jsonl";
+  }
+  if (byName && byName !== "json" && byName !== "jsonl") return byName;
+  if (firstLine.includes("\t")) return "tsv";
+  if (byName === null && firstLine.includes(",")) return "csv";
+  return "txt";
+}
+
+function createLineSplitter(onLine: (line: string) => void): RecordParser {
+  let buffer = "";
+  return {
+    push(text) {
+      buffer += text;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      lines.forEach(onLine);
+    },
+    end() {
+      if (buffer) onLine(buffer);
+      buffer = "";
+    }
+  };
+}
+
+function uniqueHeader(names: string[]) {
+  const seen = new Map<string, number>();
+  return names.map((raw, idx) => {
+    const base = raw.trim() || `column_${idx + 1}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base}_${count}`;
+  });
+}
+
+// RFC 4180 style: a field that starts with a quote runs to the closing quote (delimiters and line
+// breaks included, "" for a literal quote); quotes elsewhere are ordinary characters. The first row
+// is the header.
+function createDelimitedParser(delimiter: string, emit: (record: ImportRecord) => void): RecordParser {
+  let header: string[] | null = null;
+  let row: string[] = [];
+  let field = "";
+  let atFieldStart = true;
+  let inQuotes = false;
+  let afterQuote = false;
+
+  const endField = () => {
+    row.push(field);
+    field = "";
+    atFieldStart = true;
+  };
+  const endRow = () => {
+    const cells = row;
+    row = [];
+    if (cells.length === 1 && !cells[0].trim()) return;
+    if (!header) {
+      if (cells.length) cells[0] = cells[0].replace(/^\uFEFF/, "");
+      header = uniqueHeader(cells);
+      return;
+    }
+    const record: Record<string, string> = {};
+    cells.forEach((value, idx) => {
+      record[header![idx] ?? `column_${idx + 1}`] = value;
+    });
+    emit(record);
+  };
+
+  return {
+    push(text) {
+      for (const ch of text) {
+        if (inQuotes) {
+          if (ch === '"') {
+            inQuotes = false;
+            afterQuote = true;
+          } else {
+            field += ch;
+          }
+          continue;
+        }
+        if (afterQuote) {
+          afterQuote = false;
+          if (ch === '"') {
+            field += '"';
+            inQuotes = true;
+            continue;
+          }
+        }
+        if (ch === '"' && atFieldStart) {
+          inQuotes = true;
+          atFieldStart = false;
+        } else if (ch === delimiter) {
+          endField();
+        } else if (ch === "\n") {
+          endField();
+          endRow();
+        } else if (ch !== "\r") {
+          field += ch;
+          atFieldStart = false;
+        }
+      }
+    },
+    end() {
+      if (inQuotes) throw new Error("Unterminated quoted field at end of file");
+      if (field || row.length) {
+        endField();
+        endRow();
+      }
+    }
+  };
+}
+
+function toRecord(value: unknown): ImportRecord {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const obj = value as Record<string, unknown>;
+    // datasets-server rows wrap the example itself in `row`.
+    if ("row_idx" in obj && obj.row && typeof obj.row === "object" && !Array.isArray(obj.row)) {
+      return obj.row as Record<string, unknown>;
+    }
+    return obj;
+  }
+  return { text: typeof value === "string" ? value : JSON.stringify(value) };
+}
+
+// Emits the elements of a top-level array, or of the row list inside a top-level object, without
+// holding more than one element in memory.
+function createJsonArrayParser(emit: (record: ImportRecord) => void): RecordParser {
+  let depth = 0;
+  let top: "array" | "object" | null = null;
+  // Depth of the values being emitted (1 for a top-level array, 2 for a wrapped row list).
+  let elementDepth = 0;
+  let finished = false;
+  let inString = false;
+  let escaped = false;
+  // Last string seen directly inside a top-level object, i.e. the key of the value that follows.
+  let lastKey = "";
+  let keyBuffer: string | null = null;
+  let element = "";
+  let collecting = false;
+
+  const finishElement = () => {
+    const text = element.trim();
+    element = "";
+    collecting = false;
+    if (!text) return;
+    emit(toRecord(JSON.parse(text)));
+  };
+
+  return {
+    push(text) {
+      let segmentStart = collecting ? 0 : -1;
+      for (let i = 0; i < text.length && !finished; i++) {
+        const ch = text[i];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (ch === "\\") escaped = true;
+          else if (ch === '"') {
+            inString = false;
+            if (keyBuffer !== null) {
+              lastKey = keyBuffer;
+              keyBuffer = null;
+            }
+          }
+          if (keyBuffer !== null && inString) keyBuffer += ch;
+          continue;
+        }
+        if (/\s/.test(ch) && !collecting) continue;
+        const inTarget = elementDepth > 0 && depth === elementDepth;
+        if (inTarget && (ch === "," || ch === "]")) {
+          if (collecting) {
+            element += text.slice(segmentStart, i);
+            segmentStart = -1;
+            finishElement();
+          }
+          if (ch === "]") {
+            depth -= 1;
+            finished = true;
+          }
+          continue;
+        }
+        if (inTarget && !collecting) {
+          collecting = true;
+          segmentStart = i;
+        }
+        if (ch === '"') {
+          inString = true;
+          if (top === "object" && depth === 1 && !collecting) keyBuffer = "";
+        } else if (ch === "{" || ch === "[") {
+          if (depth === 0) {
+            top = ch === "[" ? "array" : "object";
+            if (top === "array") elementDepth = 1;
+          } else if (top === "object" && depth === 1 && ch === "[" && !elementDepth) {
+            if (ROW_LIST_KEYS.includes(lastKey)) elementDepth = 2;
+          }
+          depth += 1;
+        } else if (ch === "}" || ch === "]") {
+          depth -= 1;
+        }
+      }
+      if (collecting && segmentStart >= 0) element += text.slice(segmentStart);
+    },
+    end() {
+      if (!top) return;
+      if (!elementDepth) {
+        throw new Error(`JSON file has no top-level array or ${ROW_LIST_KEYS.join("/")} list`);
+      }
+      if (!finished) throw new Error("JSON array is not closed (file truncated?)");
+    }
+  };
+}
+
+export function createRecordParser(
+  format: ImportFormat,
+  emit: (record: ImportRecord) => void
+): RecordParser {
+  switch (format) {
+    case "jsonl":
+      return createLineSplitter((line) => {
+        if (line.trim()) emit(line);
+      });
+    case "txt":
+      return createLineSplitter((line) => {
+        const text = line.replace(/\r$/, "");
+        if (text.trim()) emit({ text });
+      });
+    case "csv":
+      return createDelimitedParser(",", emit);
+    case "tsv":
+      return createDelimitedParser("\t", emit);
+    case "json":
+      return createJsonArrayParser(emit);
+  }
+}
@@ -0,0 +1,160 @@
+/// <reference lib="webworker" />
+import { Inflate } from "pako";
+import {
+  createRecordParser,
+  detectImportFormat,
+  SNIFF_LENGTH,
+  type ImportFormat,
+  type ImportRecord,
+  type RecordParser
+} from "./importFormats";
+import { compileFilters, stratumOf, type ImportSelection } from "../shared/sampling";
+
+interface RequestMessage {
+  file: File;
+  isGzip: boolean;
+  mode?: "stream" | "count" | "analyze";
+  // Rows failing the filters are neither counted as matched nor streamed.
+  selection?: ImportSelection;
+}
+
+function toObject(record: ImportRecord): Record<string, unknown> | null {
+  let obj: unknown = record;
+  if (typeof record === "string") {
+    try {
+      obj = JSON.parse(record);
+    } catch {
+      // ignore parse errors
+      return null;
+    }
+  }
+  return obj && typeof obj === "object" && !Array.isArray(obj)
+    ? (obj as Record<string, unknown>)
+    : null;
+}
+
+// Every format is posted as one JSON line per sample, so the importer only ever parses JSONL.
+self.onmessage = async (ev: MessageEvent<RequestMessage>) => {
+  const { file, isGzip, mode = "stream", selection } = ev.data;
+  const post = (message: unknown) => (self as unknown as Worker).postMessage(message);
+  const decoder = new TextDecoder("utf-8");
+  let lineCount = 0;
+  let matchedCount = 0;
+  const strata: Record<string, number> = {};
+  const keys = new Set<string>();
+  let format: ImportFormat | null = null;
+  let parser: RecordParser | null = null;
+  let head = "";
+  let matches: ((row: Record<string, unknown> | null) => boolean) | null = null;
+  const stratifyKey = selection?.stratifyKey ?? "";
+
+  const onRecord = (record: ImportRecord) => {
+    lineCount += 1;
+    const obj = matches || stratifyKey || mode === "analyze" ? toObject(record) : null;
+    if (mode === "analyze" && obj) Object.keys(obj).forEach((k) => keys.add(k));
+    if (matches && !matches(obj)) return;
+    matchedCount += 1;
+    const stratum = stratumOf(obj, stratifyKey);
+    if (mode === "stream") {
+      post({
+        type: "line",
+        line: typeof record === "string" ? record : JSON.stringify(record),
+        stratum
+      });
+    } else {
+      strata[stratum] = (strata[stratum] ?? 0) + 1;
+    }
+  };
+
+  // The format is picked once the first few KB are in (or the file ended before that).
+  const startParser = () => {
+    format = detectImportFormat(file.name, head);
+    parser = createRecordParser(format, onRecord);
+    parser.push(head);
+    head = "";
+  };
+
+  const processText = (text: string) => {
+    if (parser) {
+      parser.push(text);
+      return;
+    }
+    head += text;
+    if (head.length >= SNIFF_LENGTH) startParser();
+  };
+
+  const processChunk = (chunk: Uint8Array) => {
+    processText(decoder.decode(chunk, { stream: true }));
+  };
+
+  const flushRemainder = () => {
+    processText(decoder.decode());
+    if (!parser) startParser();
+    parser!.end();
+  };
+
+  const finish = () => {
+    if (mode === "count") post({ type: "count", count: lineCount, matched: matchedCount, strata });
+    if (mode === "analyze") {
+      post({
+        type: "analysis",
+        count: lineCount,
+        matched: matchedCount,
+        strata,
+        keys: Array.from(keys).sort(),
+        format
+      });
+    }
+    post({ type: "done", filtered: lineCount - matchedCount });
+  };
+
+  try {
+    if (selection?.filters.length) matches = compileFilters(selection.filters);
+    if (isGzip && typeof DecompressionStream === "undefined") {
+      const reader = file.stream().getReader();
+      const inflater = new Inflate({ windowBits: 15 + 32 });
+      inflater.onData = (chunk: Uint8Array) => processChunk(chunk);
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        if (!value) continue;
+        inflater.push(value, false);
+        if (inflater.err) {
+          throw new Error(inflater.msg || "Failed to decompress gzip stream");
+        }
+      }
+
+      inflater.push(new Uint8Array(0), true);
+      if (inflater.err) {
+        throw new Error(inflater.msg || "Failed to decompress gzip stream");
+      }
+    } else {
+      const stream = isGzip
+        ? file.stream().pipeThrough(new DecompressionStream("gzip"))
+        : file.stream();
+      const reader = stream.getReader();
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        if (!value) continue;
+        processChunk(value);
+      }
+    }
+
+    flushRemainder();
+    finish();
+  } catch (err: any) {
+    post({
+      type: "error",
+      error: err?.message || err?.toString?.() || String(err)
+    });
+    try {
+      flushRemainder();
+    } catch {
+      // already reported
+    }
+    finish();
+  }
+};
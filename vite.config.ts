@@ -13,15 +13,11 @@ export default defineConfig({
     rollupOptions: {
       input: {
         options: resolve(__dirname, "options.html"),
-        background: resolve(__dirname, "src/background/index.ts"),
-        gemini: resolve(__dirname, "src/content/gemini.ts"),
-        chatgpt: resolve(__dirname, "src/content/chatgpt.ts")
+        background: resolve(__dirname, "src/background/index.ts")
       },
       output: {
         entryFileNames: (chunk) => {
           if (chunk.name === "background") return "background.js";
-          if (chunk.name === "gemini") return "content/gemini.js";
-          if (chunk.name === "chatgpt") return "content/chatgpt.js";
           return "assets/[name].js";
         },
         chunkFileNames: "assets/[name]-[hash].js",
@@ -0,0 +1,23 @@
+import { resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vite";
+
+const __dirname = fileURLToPath(new URL(".", import.meta.url));
+
+// Content scripts are classic scripts (no ES module imports), so the site adapters are bundled
+// into one self-contained IIFE. Runs after the main build and writes into the same dist folder.
+export default defineConfig({
+  // public/ is already copied by the main build.
+  publicDir: false,
+  build: {
+    outDir: "dist",
+    emptyOutDir: false,
+    sourcemap: true,
+    lib: {
+      entry: resolve(__dirname, "src/content/index.ts"),
+      formats: ["iife"],
+      name: "llmLabelerContent",
+      fileName: () => "content/index.js"
+    }
+  }
+});